@@ -1,113 +1,588 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { ImageAnalysisDisplay } from './components/ImageAnalysisDisplay';
 import { CameraView } from './components/CameraView';
-import { identifyItemsInBoxes, detectFoodItems } from './services/geminiService';
-import type { UserBox } from './types';
+import type { CameraMode } from './components/CameraView';
+import { ProductPanel } from './components/ProductPanel';
+import { NutritionLabelForm } from './components/NutritionLabelForm';
+import { MacroSummary } from './components/MacroSummary';
+import { MealItemList } from './components/MealItemList';
+import { MealSummaryTable } from './components/MealSummaryTable';
+import type { ItemHighlight } from './components/MealSummaryTable';
+import { MealLogForm } from './components/MealLogForm';
+import { MealHistory } from './components/MealHistory';
+import { Dashboard } from './components/Dashboard';
+import { ExportMenu } from './components/ExportMenu';
+import { LeftoverPanel } from './components/LeftoverPanel';
+import { BatchQueue, canReviewPhoto } from './components/BatchQueue';
+import type { BatchPhoto } from './components/BatchQueue';
+import { RefinementChat } from './components/RefinementChat';
+import type { ProposedUpdate } from './components/RefinementChat';
+import { readNutritionLabel, refineMeal } from './services/visionService';
+import { describeDropped } from './services/responseValidation';
+import { getErrorMessage } from './services/errors';
+import { isAbortError } from './utils/retry';
+import { saveMeal, guessMealType } from './services/mealLogService';
+import { loadSettings, saveSettings } from './services/settingsService';
+import { detectBoxes, identifyBoxes } from './services/mealAnalysis';
+import { preprocessImage } from './services/imagePreprocessor';
+import type { PreprocessedImage } from './services/imagePreprocessor';
+import type { AppSettings } from './services/settingsService';
+import type { ChatMessage, MealEntry, MealItem, MealType, NutritionLabel, UserBox } from './types';
+import { applyMealUpdate, getMealTotals, mealUpdateToItem, needsIdentification } from './utils/nutrition';
+import { estimateLeftovers } from './utils/leftovers';
+import { createQueue } from './utils/queue';
+import type { TaskQueue } from './utils/queue';
+import type { DedupeThresholds } from './utils/geometry';
+import { createThumbnail, loadImage } from './utils/image';
+import { decodeBarcodeFromSource, formatBarcode } from './utils/barcode';
 import { CameraIcon, SparklesIcon } from './components/icons/Icons';
+import { useUndoableState } from './hooks/useUndoableState';
 
-type AppStage = 'upload' | 'camera' | 'processing' | 'editing' | 'analyzing' | 'results';
+type AppStage = 'upload' | 'camera' | 'product' | 'label' | 'processing' | 'editing' | 'analyzing' | 'results' | 'history' | 'dashboard' | 'batch';
+// Photos of a batch analyzed at the same time; more mostly just hits provider rate limits.
+const BATCH_CONCURRENCY = 2;
 const uuid = () => crypto.randomUUID();
+const sameBoxes = (a: UserBox[], b: UserBox[]) => a.length === b.length && a.every((box, i) => box === b[i]);
 
 const App: React.FC = () => {
   const [stage, setStage] = useState<AppStage>('upload');
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [imageDimensions, setImageDimensions] = useState<{ width: number; height: number } | null>(null);
-  const [userBoxes, setUserBoxes] = useState<UserBox[]>([]);
+  const boxHistory = useUndoableState<UserBox[]>([], sameBoxes);
+  const { present: userBoxes, set: setUserBoxes, reset: resetUserBoxes } = boxHistory;
+  const changedBoxCount = userBoxes.filter(needsIdentification).length;
   const [error, setError] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [extraItems, setExtraItems] = useState<MealItem[]>([]);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [highlight, setHighlight] = useState<ItemHighlight | null>(null);
+  const [mealTimestamp, setMealTimestamp] = useState<number>(() => Date.now());
+  const [activeMeal, setActiveMeal] = useState<MealEntry | null>(null);
+  // A reopened meal only has its small stored thumbnail, which is too coarse to identify or refine from.
+  const canAnalyzeImage = !!imageUrl && imageUrl !== activeMeal?.thumbnail;
+  const [returnStage, setReturnStage] = useState<AppStage>('upload');
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [cameraMode, setCameraMode] = useState<CameraMode>('photo');
+  const [scannedBarcode, setScannedBarcode] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // label is undefined while the photo is being read and null if reading failed
+  const [labelScan, setLabelScan] = useState<{ imageUrl: string; label?: NutritionLabel | null } | null>(null);
+  const labelRequestRef = useRef(0);
+  const [afterImageUrl, setAfterImageUrl] = useState<string | null>(null);
+  const [isAnalyzingAfter, setIsAnalyzingAfter] = useState(false);
+  const [cameraTarget, setCameraTarget] = useState<'meal' | 'after'>('meal');
+  const afterControllerRef = useRef<AbortController | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [proposals, setProposals] = useState<ProposedUpdate[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const refineControllerRef = useRef<AbortController | null>(null);
+  const [batch, setBatch] = useState<BatchPhoto[]>([]);
+  const [reviewingBatchId, setReviewingBatchId] = useState<string | null>(null);
+  const batchControllerRef = useRef(new AbortController());
+  // Shared by the batch and its retries so the concurrency limit holds across both; replaced with the controller.
+  const batchQueueRef = useRef<TaskQueue | null>(null);
+  // The detection or identification request in flight, and the stage that Cancel returns to.
+  const requestRef = useRef<AbortController | null>(null);
+  const cancelStageRef = useRef<AppStage>('upload');
+
+  const startRequest = useCallback((cancelStage: AppStage): AbortSignal => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    cancelStageRef.current = cancelStage;
+    return controller.signal;
+  }, []);
+
+  const clearAfterPhotoState = useCallback(() => {
+    afterControllerRef.current?.abort();
+    afterControllerRef.current = null;
+    setAfterImageUrl(null);
+    setIsAnalyzingAfter(false);
+  }, []);
+
+  const clearRefinement = useCallback(() => {
+    refineControllerRef.current?.abort();
+    refineControllerRef.current = null;
+    setChatMessages([]);
+    setProposals([]);
+    setIsRefining(false);
+  }, []);
+
+  const clearBatch = useCallback(() => {
+    batchControllerRef.current.abort();
+    batchControllerRef.current = new AbortController();
+    batchQueueRef.current = null;
+    setBatch([]);
+    setReviewingBatchId(null);
+  }, []);
 
   const handleImageSelect = useCallback(async (file: File) => {
+    const signal = startRequest('upload');
     setStage('processing'); 
     setError(null);
-    setUserBoxes([]);
+    setAnnouncement('Detecting food items...');
+    resetUserBoxes([]);
     setImageUrl(null);
     setImageDimensions(null);
+    setActiveMeal(null);
+    setExtraItems([]);
+    setEditingItemId(null);
+    setHighlight(null);
+    clearAfterPhotoState();
+    clearRefinement();
+    clearBatch();
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const originalUrl = e.target?.result as string;
-      
-      const img = new Image();
-      img.onload = async () => {
-        setImageDimensions({ width: img.naturalWidth, height: img.naturalHeight });
-
-        const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          setError('Failed to process image. Could not get canvas context.');
-          setStage('upload');
-          return;
-        }
-        ctx.drawImage(img, 0, 0);
-        
-        const convertedDataUrl = canvas.toDataURL('image/jpeg', 0.9);
-        const base64Data = convertedDataUrl.split(',')[1];
-        
-        try {
-            const detectedItems = await detectFoodItems(base64Data, 'image/jpeg');
-            const initialBoxes = detectedItems.map(item => ({
-                id: uuid(),
-                boundingBox: item.boundingBox,
-            }));
-            setUserBoxes(initialBoxes);
-            setImageUrl(convertedDataUrl);
-            setStage('editing');
-        } catch (err) {
-            console.error(err);
-            setError('Failed to auto-detect food items. Please draw boxes manually.');
-            // Fallback to manual editing mode on detection failure
-            setImageUrl(convertedDataUrl); 
-            setStage('editing');
-        }
-      };
-      img.onerror = () => {
-        setError('Failed to load image.');
-        setStage('upload');
-      };
-      img.src = originalUrl;
-    };
-    reader.onerror = () => {
-        setError('Failed to read file.');
-        setStage('upload');
-    };
-    reader.readAsDataURL(file);
-  }, []);
+    let image: PreprocessedImage;
+    try {
+      image = await preprocessImage(file);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error(err);
+      setError('Failed to load image.');
+      setStage('upload');
+      return;
+    }
+    if (signal.aborted) return;
+    setMealTimestamp(image.capturedAt ?? Date.now());
+    setImageDimensions(image.dimensions);
 
+    try {
+      const { boxes: initialBoxes, dropped, duplicates } = await detectBoxes(image.imageUrl, { signal, dedupe: settings.dedupe });
+      if (signal.aborted) return;
+      resetUserBoxes(initialBoxes);
+      if (dropped.length > 0) setNotice(describeDropped(dropped));
+      setImageUrl(image.imageUrl);
+      setStage('editing');
+      setAnnouncement(initialBoxes.length === 0
+        ? 'No food items were detected. Draw boxes around the food, then identify.'
+        : `Detected ${initialBoxes.length} food ${initialBoxes.length === 1 ? 'item' : 'items'}${duplicates ? ` and removed ${duplicates} duplicate ${duplicates === 1 ? 'box' : 'boxes'}` : ''}. Adjust the boxes, then identify.`);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setError(`${getErrorMessage(err, 'Failed to auto-detect food items.')} Please draw boxes manually.`);
+      // Fallback to manual editing mode on detection failure
+      setImageUrl(image.imageUrl);
+      setStage('editing');
+    }
+  }, [resetUserBoxes, clearAfterPhotoState, clearRefinement, clearBatch, startRequest, settings.dedupe]);
+
+  // Only new and moved boxes are sent unless nothing changed, in which case every box is identified again
+  // and the cache is bypassed, since an explicit retry should reach the model.
   const handleIdentify = async () => {
-    if (!imageUrl || userBoxes.length === 0) return;
+    if (!canAnalyzeImage || userBoxes.length === 0) return;
+    const all = changedBoxCount === 0;
+    const sentIds = new Set(userBoxes.filter(box => all || needsIdentification(box)).map(box => box.id));
 
+    const signal = startRequest(stage);
     setStage('analyzing');
     setError(null);
+    setAnnouncement('Identifying food items...');
     try {
-      const base64Data = imageUrl.split(',')[1];
-      const results = await identifyItemsInBoxes(base64Data, 'image/jpeg', userBoxes);
-      
-      const updatedBoxes = userBoxes.map(box => {
-        const result = results.find(r => r.id === box.id);
-        return result ? { ...box, name: result.name, calories: result.calories } : box;
-      }).filter(box => box.name && box.calories); // Filter out boxes that didn't get a result
-
+      const { boxes: updatedBoxes, dropped, unresolved = [] } = await identifyBoxes(imageUrl, userBoxes, { signal, all, refresh: all });
+      if (signal.aborted) return;
+      const notices = [
+        dropped.length > 0 ? describeDropped(dropped) : '',
+        unresolved.length > 0
+          ? `${unresolved.length} ${unresolved.length === 1 ? 'box' : 'boxes'} got no new result and kept the previous identification.`
+          : '',
+      ].filter(Boolean);
+      setNotice(notices.length > 0 ? notices.join(' ') : null);
       setUserBoxes(updatedBoxes);
       setStage('results');
+      const { calories } = getMealTotals([...updatedBoxes, ...extraItems]);
+      const foodBoxes = updatedBoxes.filter(box => !box.notFood && sentIds.has(box.id) && !unresolved.includes(box.id));
+      setAnnouncement(foodBoxes.length === 0
+        ? 'No food could be identified in the boxes.'
+        : `Identified ${foodBoxes.map(box => `${box.name}, ${box.calories} kcal`).join('; ')}. Meal total ${Math.round(calories)} kcal.`);
     } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
       console.error(err);
-      setError('Failed to analyze the image. Please try again.');
+      setError(getErrorMessage(err, 'Failed to analyze the image. Please try again.'));
       setStage('editing'); // Revert to editing on error
     }
   };
 
 
+  // Stale results are ignored because every handler checks its signal after awaiting.
+  const handleCancelRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setError(null);
+    setStage(cancelStageRef.current);
+    setAnnouncement('Cancelled.');
+  };
+
   const handleReset = () => {
+    requestRef.current?.abort();
     setStage('upload');
     setImageUrl(null);
-    setUserBoxes([]);
+    resetUserBoxes([]);
     setError(null);
     setImageDimensions(null);
+    setActiveMeal(null);
+    setExtraItems([]);
+    setEditingItemId(null);
+    setHighlight(null);
+    setNotice(null);
+    clearAfterPhotoState();
+    clearRefinement();
+    clearBatch();
+  };
+
+  const handleSaveMeal = async (mealType: MealType, timestamp: number) => {
+    if (userBoxes.length === 0 && extraItems.length === 0) return;
+    const thumbnail = activeMeal?.thumbnail ?? (imageUrl ? await createThumbnail(imageUrl) : undefined);
+    const afterThumbnail = afterImageUrl
+      ? (afterImageUrl === activeMeal?.afterThumbnail ? afterImageUrl : await createThumbnail(afterImageUrl))
+      : undefined;
+    const { calories, macros } = getMealTotals([...userBoxes, ...extraItems]);
+    const now = Date.now();
+    const entry: MealEntry = {
+      id: activeMeal?.id ?? uuid(),
+      timestamp,
+      mealType,
+      thumbnail,
+      afterThumbnail,
+      imageDimensions: imageDimensions ?? undefined,
+      boxes: userBoxes,
+      extraItems,
+      totals: { calories, macros },
+      createdAt: activeMeal?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await saveMeal(entry);
+    setActiveMeal(entry);
+    setMealTimestamp(timestamp);
+    if (reviewingBatchId) {
+      updateBatchPhoto(reviewingBatchId, { boxes: userBoxes, extraItems, meal: entry });
+    }
+  };
+
+  const handleNavigate = (target: 'history' | 'dashboard') => {
+    if (stage !== 'history' && stage !== 'dashboard') {
+      setReturnStage(stage);
+    }
+    setStage(target);
+  };
+
+  const handleTargetChange = (dailyCalorieTarget: number) => {
+    const updated = { ...settings, dailyCalorieTarget };
+    setSettings(updated);
+    saveSettings(updated);
+  };
+
+  const handleDedupeChange = (dedupe: DedupeThresholds) => {
+    const updated = { ...settings, dedupe };
+    setSettings(updated);
+    saveSettings(updated);
+  };
+
+  const handleOpenMeal = (meal: MealEntry) => {
+    keepBatchReview();
+    setReviewingBatchId(null);
+    setImageUrl(meal.thumbnail ?? null);
+    setImageDimensions(meal.imageDimensions ?? null);
+    resetUserBoxes(meal.boxes);
+    setExtraItems(meal.extraItems ?? []);
+    setEditingItemId(null);
+    setHighlight(null);
+    setMealTimestamp(meal.timestamp);
+    setActiveMeal(meal);
+    setError(null);
+    setNotice(null);
+    clearAfterPhotoState();
+    clearRefinement();
+    setAfterImageUrl(meal.afterThumbnail ?? null);
+    setStage('results');
+  };
+
+  // Scanning from the results stage adds to the current meal; otherwise a product starts a new one.
+  const hasMealInProgress = !!imageUrl || extraItems.length > 0;
+  const leaveScan = () => {
+    labelRequestRef.current++;
+    if (hasMealInProgress) {
+      setStage('results');
+    } else {
+      handleReset();
+    }
+  };
+
+  const handleOpenCamera = (mode: CameraMode, target: 'meal' | 'after' = 'meal') => {
+    setCameraMode(mode);
+    setCameraTarget(target);
+    setNotice(null);
+    setStage('camera');
+  };
+
+  const handleBarcode = useCallback((barcode: string) => {
+    setScannedBarcode(barcode);
+    setError(null);
+    setNotice(null);
+    setStage('product');
+    setAnnouncement(`Scanned barcode ${formatBarcode(barcode)}.`);
+  }, []);
+
+  const handleBarcodeImageSelect = async (file: File) => {
+    const url = URL.createObjectURL(file);
+    let barcode: string | null = null;
+    try {
+      const img = await loadImage(url);
+      barcode = decodeBarcodeFromSource(img, img.naturalWidth, img.naturalHeight, 1600);
+    } catch (err) {
+      console.error('Could not scan the image for a barcode:', err);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    if (barcode) {
+      handleBarcode(barcode);
+      return;
+    }
+    handleImageSelect(file);
+    setNotice('No barcode was found in the image, so it is being analyzed as a meal photo instead.');
+  };
+
+  const handleLabelImageSelect = async (file: File) => {
+    const request = ++labelRequestRef.current;
+    setStage('label');
+    setError(null);
+    setNotice(null);
+    setLabelScan(null);
+    setAnnouncement('Reading the nutrition label...');
+    let imageUrl: string;
+    try {
+      // Labels need legible small print, so they get a larger edge and budget than meal photos.
+      imageUrl = (await preprocessImage(file, { maxEdge: 2048, maxBytes: 1024 * 1024 })).imageUrl;
+    } catch (err) {
+      console.error(err);
+      if (request !== labelRequestRef.current) return;
+      setError('Failed to read file.');
+      setStage(hasMealInProgress ? 'results' : 'upload');
+      return;
+    }
+    if (request !== labelRequestRef.current) return;
+    setLabelScan({ imageUrl });
+    try {
+      const label = await readNutritionLabel(imageUrl.split(',')[1], 'image/jpeg');
+      if (request !== labelRequestRef.current) return;
+      setLabelScan({ imageUrl, label });
+      setAnnouncement(`Label read: ${Math.round(label.calories)} kcal per serving. Check the values before adding.`);
+    } catch (err) {
+      console.error(err);
+      if (request !== labelRequestRef.current) return;
+      setLabelScan({ imageUrl, label: null });
+      setError(`${getErrorMessage(err, 'Could not read the nutrition label.')} You can also enter the values by hand.`);
+    }
+  };
+
+  const handleAddPackagedItem = (item: MealItem) => {
+    labelRequestRef.current++;
+    setExtraItems(items => [...items, item]);
+    setScannedBarcode(null);
+    setLabelScan(null);
+    setError(null);
+    setStage('results');
+    setAnnouncement(`Added ${item.name}, ${item.calories} kcal.`);
+  };
+
+  // Detects and identifies what is left in the after photo, then matches it against the meal as served.
+  const handleAfterPhotoSelect = async (file: File) => {
+    afterControllerRef.current?.abort();
+    const controller = new AbortController();
+    afterControllerRef.current = controller;
+    const { signal } = controller;
+    setStage('results');
+    setError(null);
+    setIsAnalyzingAfter(true);
+    setAnnouncement('Comparing the after photo with your meal...');
+    try {
+      const { imageUrl: url } = await preprocessImage(file);
+      if (signal.aborted) return;
+      setAfterImageUrl(url);
+      const { boxes: afterBoxes } = await detectBoxes(url, { signal, dedupe: settings.dedupe });
+      const { boxes: remaining } = afterBoxes.length > 0 ? await identifyBoxes(url, afterBoxes, { signal }) : { boxes: [] };
+      if (signal.aborted) return;
+      // Matched against the boxes as they are now, so edits made while the photo was analyzed are kept.
+      setUserBoxes(current => estimateLeftovers(current, remaining));
+      setAnnouncement('Leftovers estimated. Totals now count only what you ate.');
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setError(`${getErrorMessage(err, 'Failed to analyze the after photo.')} You can set leftovers by hand.`);
+    } finally {
+      if (afterControllerRef.current === controller) {
+        afterControllerRef.current = null;
+        setIsAnalyzingAfter(false);
+      }
+    }
+  };
+
+  // Estimated leftovers go with the photo; fractions entered by hand stay.
+  const handleClearAfterPhoto = () => {
+    clearAfterPhotoState();
+    const withoutEstimate = <T extends MealItem>(item: T): T =>
+      item.leftover && !item.leftover.userProvided ? { ...item, leftover: undefined } : item;
+    setUserBoxes(userBoxes.map(withoutEstimate));
+    setExtraItems(items => items.map(withoutEstimate));
   };
 
+  // Sends the user's message with the image and the current items; the changes the model proposes wait for review.
+  const handleRefinementSend = async (text: string) => {
+    if (!canAnalyzeImage) return;
+    refineControllerRef.current?.abort();
+    const controller = new AbortController();
+    refineControllerRef.current = controller;
+    const messages: ChatMessage[] = [...chatMessages, { role: 'user', text }];
+    setChatMessages(messages);
+    setIsRefining(true);
+    setError(null);
+    try {
+      const { value, dropped } = await refineMeal(imageUrl.split(',')[1], 'image/jpeg', [...userBoxes, ...extraItems], messages, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      const reply = value.reply || `Suggested ${value.updates.length} ${value.updates.length === 1 ? 'change' : 'changes'}.`;
+      setChatMessages([...messages, { role: 'model', text: reply }]);
+      setProposals(current => [...current, ...value.updates.map(update => ({ id: uuid(), update }))]);
+      setNotice(dropped.length > 0 ? describeDropped(dropped) : null);
+      setAnnouncement(value.updates.length > 0 ? `${reply} Review the suggested changes.` : reply);
+    } catch (err) {
+      if (controller.signal.aborted || isAbortError(err)) return;
+      console.error(err);
+      setError(getErrorMessage(err, 'Could not get an answer to your message. Please try again.'));
+    } finally {
+      if (refineControllerRef.current === controller) {
+        refineControllerRef.current = null;
+        setIsRefining(false);
+      }
+    }
+  };
+
+  // Accepted changes to boxes are applied in one step, so a single undo reverts them.
+  const handleAcceptUpdates = (ids: string[]) => {
+    const accepted = proposals.filter(proposal => ids.includes(proposal.id)).map(proposal => proposal.update);
+    const applyTo = <T extends MealItem>(items: T[]): T[] => items.flatMap(item => {
+      const updated = accepted.reduce<T | null>((current, update) => current && update.id === item.id ? applyMealUpdate(current, update) : current, item);
+      return updated ? [updated] : [];
+    });
+    const updatedBoxes = applyTo(userBoxes);
+    const updatedExtras = [
+      ...applyTo(extraItems),
+      ...accepted.filter(update => update.action === 'add').map(update => mealUpdateToItem(uuid(), update)),
+    ];
+    setUserBoxes(updatedBoxes);
+    setExtraItems(updatedExtras);
+    setProposals(current => current.filter(proposal => !ids.includes(proposal.id)));
+    const { calories } = getMealTotals([...updatedBoxes, ...updatedExtras]);
+    setAnnouncement(`Applied ${accepted.length} ${accepted.length === 1 ? 'change' : 'changes'}. Meal total ${Math.round(calories)} kcal.`);
+  };
+
+  const handleRejectUpdates = (ids: string[]) => {
+    setProposals(current => current.filter(proposal => !ids.includes(proposal.id)));
+  };
+
+  const updateBatchPhoto = (id: string, changes: Partial<BatchPhoto>) => {
+    setBatch(photos => photos.map(photo => photo.id === id ? { ...photo, ...changes } : photo));
+  };
+
+  const analyzeBatchPhoto = async (photo: BatchPhoto, signal: AbortSignal) => {
+    const update = (changes: Partial<BatchPhoto>) => {
+      if (!signal.aborted) updateBatchPhoto(photo.id, changes);
+    };
+    update({ status: 'detecting', error: undefined });
+    let image = photo.image;
+    let boxes = photo.boxes;
+    try {
+      image = image ?? await preprocessImage(photo.file);
+      update({ image });
+      boxes = boxes.length > 0 ? boxes : (await detectBoxes(image.imageUrl, { signal, dedupe: settings.dedupe })).boxes;
+      update({ status: 'identifying', boxes });
+      boxes = boxes.length > 0 ? (await identifyBoxes(image.imageUrl, boxes, { signal })).boxes : boxes;
+      update({ status: 'ready', boxes });
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error(err);
+      update({
+        status: 'failed',
+        error: !image
+          ? 'Could not read the image.'
+          : boxes.length === 0
+            ? `${getErrorMessage(err, 'Could not detect food.')} Review to draw boxes by hand.`
+            : getErrorMessage(err, 'Could not identify the food.'),
+      });
+    }
+  };
+
+  const analyzeBatch = (photos: BatchPhoto[]) => {
+    const { signal } = batchControllerRef.current;
+    batchQueueRef.current = batchQueueRef.current ?? createQueue(BATCH_CONCURRENCY, signal);
+    const queue = batchQueueRef.current;
+    photos.forEach(photo => queue.add(() => analyzeBatchPhoto(photo, signal)));
+  };
+
+  const handleImagesSelect = (files: File[]) => {
+    handleReset();
+    const photos: BatchPhoto[] = files.map(file => ({ id: uuid(), file, status: 'queued', boxes: [], extraItems: [] }));
+    setBatch(photos);
+    setStage('batch');
+    setAnnouncement(`Analyzing ${photos.length} photos.`);
+    // handleReset replaced the batch controller, so this run uses the new signal.
+    analyzeBatch(photos);
+  };
+
+  const handleRetryBatchPhoto = (id: string) => {
+    const photo = batch.find(p => p.id === id);
+    if (!photo) return;
+    updateBatchPhoto(id, { status: 'queued', error: undefined });
+    analyzeBatch([photo]);
+  };
+
+  // Keeps the edits made to the photo under review so reopening it shows them.
+  const keepBatchReview = () => {
+    if (reviewingBatchId) {
+      updateBatchPhoto(reviewingBatchId, { boxes: userBoxes, extraItems, meal: activeMeal ?? undefined });
+    }
+  };
+
+  const handleReviewBatchPhoto = (id: string) => {
+    const photo = batch.find(p => p.id === id);
+    if (!photo?.image) return;
+    keepBatchReview();
+    setReviewingBatchId(id);
+    setImageUrl(photo.image.imageUrl);
+    setImageDimensions(photo.image.dimensions);
+    resetUserBoxes(photo.boxes);
+    setExtraItems(photo.extraItems);
+    setActiveMeal(photo.meal ?? null);
+    setMealTimestamp(photo.meal?.timestamp ?? photo.image.capturedAt ?? photo.file.lastModified);
+    setEditingItemId(null);
+    setHighlight(null);
+    setError(null);
+    setNotice(null);
+    clearAfterPhotoState();
+    clearRefinement();
+    setAfterImageUrl(photo.meal?.afterThumbnail ?? null);
+    const isIdentified = photo.boxes.some(box => box.name || box.notFood);
+    setStage(isIdentified ? 'results' : 'editing');
+    setAnnouncement(`Reviewing photo ${batch.indexOf(photo) + 1} of ${batch.length}.`);
+  };
+
+  const handleBackToBatch = () => {
+    keepBatchReview();
+    setReviewingBatchId(null);
+    setStage('batch');
+  };
+
+  const nextBatchPhoto = batch.find(photo => photo.id !== reviewingBatchId && canReviewPhoto(photo) && !photo.meal);
+
+  const editHistory = useMemo(() => ({
+    canUndo: boxHistory.canUndo,
+    canRedo: boxHistory.canRedo,
+    onUndo: boxHistory.undo,
+    onRedo: boxHistory.redo,
+    onEditStart: boxHistory.beginBatch,
+    onEditEnd: boxHistory.endBatch,
+  }), [boxHistory.canUndo, boxHistory.canRedo, boxHistory.undo, boxHistory.redo, boxHistory.beginBatch, boxHistory.endBatch]);
+
   const isAnalyzing = stage === 'analyzing';
   const isProcessing = stage === 'processing';
 
@@ -123,44 +598,168 @@ const App: React.FC = () => {
             </div>
           <p className="mt-2 text-lg text-gray-400">
             {stage === 'upload' && 'Upload a photo or use your camera to get started.'}
-            {stage === 'camera' && 'Center your meal in the frame and take a photo.'}
+            {stage === 'camera' && (cameraMode === 'barcode'
+              ? 'Scan the barcode of a packaged food.'
+              : cameraTarget === 'after' ? 'Photograph what is left on the plate.' : 'Center your meal in the frame and take a photo.')}
+            {stage === 'product' && 'Check the product and how much of it you had.'}
+            {stage === 'label' && 'Check the values read from the label and how many servings you had.'}
             {stage === 'processing' && 'Automatically detecting food items...'}
             {stage === 'editing' && 'Adjust the boxes, then click "Identify".'}
             {(stage === 'analyzing' || stage === 'results') && 'AI-powered calorie estimation for your meal.'}
+            {stage === 'history' && 'Browse, reopen and edit the meals you have logged.'}
+            {stage === 'dashboard' && 'Your daily and weekly intake against your calorie target.'}
+            {stage === 'batch' && 'Your photos are analyzed in the background. Review each one, then save it.'}
           </p>
+          {(stage === 'upload' || stage === 'results' || stage === 'history' || stage === 'dashboard' || stage === 'batch') && (
+            <nav className="mt-4 flex justify-center gap-2">
+              {batch.length > 0 && (
+                <button
+                  onClick={handleBackToBatch}
+                  aria-current={stage === 'batch' ? 'page' : undefined}
+                  className={`px-4 py-1.5 text-sm rounded-full border transition-colors
+                    ${stage === 'batch' ? 'border-indigo-500 text-white bg-indigo-600/30' : 'border-gray-600 text-gray-300 hover:text-white hover:border-indigo-500'}`}
+                >
+                  Batch ({batch.filter(photo => photo.meal).length}/{batch.length})
+                </button>
+              )}
+              {(['history', 'dashboard'] as const).map(target => (
+                <button
+                  key={target}
+                  onClick={() => handleNavigate(target)}
+                  aria-current={stage === target ? 'page' : undefined}
+                  className={`px-4 py-1.5 text-sm rounded-full border transition-colors
+                    ${stage === target ? 'border-indigo-500 text-white bg-indigo-600/30' : 'border-gray-600 text-gray-300 hover:text-white hover:border-indigo-500'}`}
+                >
+                  {target === 'history' ? 'Meal History' : 'Dashboard'}
+                </button>
+              ))}
+            </nav>
+          )}
         </header>
 
+        <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
         <main className="bg-gray-800/50 rounded-2xl shadow-2xl p-6 border border-gray-700 backdrop-blur-sm min-h-[300px] flex flex-col justify-center items-center">
           {stage === 'upload' && (
             <ImageUploader 
                 onImageSelect={handleImageSelect} 
+                onImagesSelect={handleImagesSelect}
+                onBarcodeImageSelect={handleBarcodeImageSelect}
+                onLabelImageSelect={handleLabelImageSelect}
                 isLoading={false} 
-                onOpenCamera={() => setStage('camera')} 
+                onOpenCamera={handleOpenCamera} 
+            />
+          )}
+
+          {stage === 'history' && (
+            <MealHistory
+              onOpenMeal={handleOpenMeal}
+              onBack={() => setStage(returnStage)}
+            />
+          )}
+
+          {stage === 'dashboard' && (
+            <Dashboard
+              dailyCalorieTarget={settings.dailyCalorieTarget}
+              onTargetChange={handleTargetChange}
+              dedupe={settings.dedupe}
+              onDedupeChange={handleDedupeChange}
+              onBack={() => setStage(returnStage)}
+            />
+          )}
+
+          {stage === 'batch' && (
+            <BatchQueue
+              photos={batch}
+              onReview={handleReviewBatchPhoto}
+              onRetry={handleRetryBatchPhoto}
+              onRemove={(id) => setBatch(photos => photos.filter(photo => photo.id !== id))}
+              onDone={handleReset}
             />
           )}
 
           {stage === 'camera' && (
-            <CameraView onCapture={handleImageSelect} onCancel={handleReset} />
+            <CameraView
+              mode={cameraMode}
+              onModeChange={setCameraMode}
+              onCapture={cameraTarget === 'after' ? handleAfterPhotoSelect : cameraMode === 'label' ? handleLabelImageSelect : handleImageSelect}
+              onBarcode={handleBarcode}
+              onCancel={leaveScan}
+              modes={cameraTarget === 'after' ? ['photo'] : hasMealInProgress ? ['barcode', 'label'] : undefined}
+            />
+          )}
+
+          {stage === 'product' && scannedBarcode && (
+            <ProductPanel barcode={scannedBarcode} onAdd={handleAddPackagedItem} onCancel={leaveScan} />
+          )}
+
+          {stage === 'label' && (!labelScan || labelScan.label === undefined) && (
+            <div className="flex flex-col items-center justify-center">
+              <div className="w-16 h-16 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+              <p className="mt-4 text-white font-semibold text-lg">Reading the nutrition label...</p>
+              <button onClick={leaveScan} className="mt-4 px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {stage === 'label' && labelScan && labelScan.label !== undefined && (
+            <NutritionLabelForm
+              key={labelScan.imageUrl}
+              label={labelScan.label}
+              imageUrl={labelScan.imageUrl}
+              onAdd={handleAddPackagedItem}
+              onCancel={() => {
+                setError(null);
+                leaveScan();
+              }}
+            />
           )}
 
           {isProcessing && (
              <div className="flex flex-col items-center justify-center">
                 <div className="w-16 h-16 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
                 <p className="mt-4 text-white font-semibold text-lg">Detecting food items...</p>
+                <button onClick={handleCancelRequest} className="mt-4 px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+                  Cancel
+                </button>
              </div>
           )}
 
-          {imageUrl && (stage === 'editing' || stage === 'analyzing' || stage === 'results') && (
-            <div className="flex flex-col items-center">
-              <ImageAnalysisDisplay
-                imageUrl={imageUrl}
-                imageDimensions={imageDimensions}
-                boxes={userBoxes}
-                onBoxesChange={setUserBoxes}
-                isEditing={stage === 'editing'}
-                isLoading={isAnalyzing}
-              />
-              <div className="flex items-center gap-4 mt-6">
+          {(stage === 'results' || (imageUrl && (stage === 'editing' || stage === 'analyzing'))) && (
+            <div className="flex flex-col items-center w-full">
+              {reviewingBatchId && (
+                <div className="w-full max-w-2xl mb-4 flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-400">
+                    Photo {batch.findIndex(photo => photo.id === reviewingBatchId) + 1} of {batch.length}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <button onClick={handleBackToBatch} disabled={isAnalyzing} className="px-3 py-1.5 rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+                      Back to batch
+                    </button>
+                    {nextBatchPhoto && (
+                      <button onClick={() => handleReviewBatchPhoto(nextBatchPhoto.id)} disabled={isAnalyzing} className="px-3 py-1.5 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+                        Next photo
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+              {imageUrl && (
+                <ImageAnalysisDisplay
+                  imageUrl={imageUrl}
+                  imageDimensions={imageDimensions}
+                  boxes={userBoxes}
+                  onBoxesChange={setUserBoxes}
+                  isEditing={stage === 'editing'}
+                  isLoading={isAnalyzing}
+                  history={editHistory}
+                  onItemSelect={setEditingItemId}
+                  highlightedBoxId={stage === 'results' ? highlight?.id : null}
+                  onBoxClick={(id) => setHighlight(highlight?.id === id ? null : { id, source: 'image' })}
+                />
+              )}
+              <div className="flex flex-wrap items-center justify-center gap-4 mt-6">
                 <button
                   onClick={handleReset}
                   disabled={isAnalyzing || isProcessing}
@@ -169,22 +768,113 @@ const App: React.FC = () => {
                   <CameraIcon className="w-5 h-5"/>
                   Start Over
                 </button>
-                {(stage === 'editing' || stage === 'results') && (
+                {stage === 'results' && canAnalyzeImage && (
+                  <button
+                    onClick={() => setStage('editing')}
+                    className="inline-flex items-center gap-2 px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-colors"
+                  >
+                    Edit Boxes
+                  </button>
+                )}
+                {stage === 'results' && (
+                  <button
+                    onClick={() => handleOpenCamera('barcode')}
+                    className="inline-flex items-center gap-2 px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-colors"
+                  >
+                    Scan Barcode
+                  </button>
+                )}
+                {isAnalyzing && (
+                  <button
+                    onClick={handleCancelRequest}
+                    className="inline-flex items-center gap-2 px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+                {canAnalyzeImage && (stage === 'editing' || stage === 'results') && (
                   <button
                     onClick={handleIdentify}
                     disabled={isAnalyzing || isProcessing || userBoxes.length === 0}
                     className="inline-flex items-center gap-2 px-6 py-3 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:bg-indigo-900/50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
                   >
                     <SparklesIcon className="w-5 h-5"/>
-                    {stage === 'editing' ? 'Identify Foods' : 'Identify Again'}
+                    {stage === 'editing' ? 'Identify Foods' : changedBoxCount > 0 ? `Identify ${changedBoxCount} Changed` : 'Identify All Again'}
                   </button>
                 )}
               </div>
+              {stage === 'results' && imageUrl && !canAnalyzeImage && (
+                <p className="mt-3 text-sm text-gray-400 text-center">
+                  Only a small thumbnail of this meal is stored, so it can't be identified again or refined. Edit the items by hand.
+                </p>
+              )}
+              {stage === 'results' && (
+                <>
+                  <MealSummaryTable
+                    boxes={userBoxes}
+                    extraItems={extraItems}
+                    highlight={highlight}
+                    onHighlightChange={setHighlight}
+                  />
+                  <MealItemList
+                    boxes={userBoxes}
+                    extraItems={extraItems}
+                    onBoxesChange={setUserBoxes}
+                    onExtraItemsChange={setExtraItems}
+                    editingItemId={editingItemId}
+                    onEditingItemIdChange={setEditingItemId}
+                  />
+                  <LeftoverPanel
+                    afterImageUrl={afterImageUrl}
+                    isAnalyzing={isAnalyzingAfter}
+                    boxes={userBoxes}
+                    extraItems={extraItems}
+                    onBoxesChange={setUserBoxes}
+                    onExtraItemsChange={setExtraItems}
+                    onAfterPhotoSelect={handleAfterPhotoSelect}
+                    onTakeAfterPhoto={() => handleOpenCamera('photo', 'after')}
+                    onClearAfterPhoto={handleClearAfterPhoto}
+                  />
+                  {canAnalyzeImage && (
+                    <RefinementChat
+                      messages={chatMessages}
+                      proposals={proposals}
+                      items={[...userBoxes, ...extraItems]}
+                      isSending={isRefining}
+                      onSend={handleRefinementSend}
+                      onAccept={handleAcceptUpdates}
+                      onReject={handleRejectUpdates}
+                    />
+                  )}
+                  <MacroSummary items={[...userBoxes, ...extraItems]} />
+                  <MealLogForm
+                    key={reviewingBatchId ?? 'meal'}
+                    initialMealType={activeMeal?.mealType ?? guessMealType(new Date(mealTimestamp))}
+                    initialTimestamp={activeMeal?.timestamp ?? mealTimestamp}
+                    isExistingMeal={!!activeMeal}
+                    disabled={userBoxes.length === 0 && extraItems.length === 0}
+                    onSave={handleSaveMeal}
+                  />
+                  <ExportMenu
+                    imageUrl={imageUrl}
+                    imageDimensions={imageDimensions}
+                    boxes={userBoxes}
+                    extraItems={extraItems}
+                    timestamp={activeMeal?.timestamp ?? mealTimestamp}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          {notice && (
+            <div className="mt-4 text-center p-4 bg-indigo-900/40 text-indigo-200 border border-indigo-700 rounded-lg" role="status">
+              <p>{notice}</p>
             </div>
           )}
 
           {error && (
-            <div className="mt-4 text-center p-4 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">
+            <div className="mt-4 text-center p-4 bg-red-900/50 text-red-300 border border-red-700 rounded-lg" role="alert">
               <p><strong>Error:</strong> {error}</p>
             </div>
           )}
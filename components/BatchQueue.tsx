@@ -0,0 +1,116 @@
+import React from 'react';
+import type { MealEntry, MealItem, UserBox } from '../types';
+import type { PreprocessedImage } from '../services/imagePreprocessor';
+import { getMealTotals } from '../utils/nutrition';
+
+export type BatchPhotoStatus = 'queued' | 'detecting' | 'identifying' | 'ready' | 'failed';
+
+// One photo of a batch upload, with the analysis and any edits made while reviewing it
+export interface BatchPhoto {
+  id: string;
+  file: File;
+  status: BatchPhotoStatus;
+  image?: PreprocessedImage;
+  boxes: UserBox[];
+  extraItems: MealItem[];
+  error?: string;
+  meal?: MealEntry; // set once the photo has been saved to the log
+}
+
+interface BatchQueueProps {
+  photos: BatchPhoto[];
+  onReview: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onDone: () => void;
+}
+
+const STATUS_LABELS: Record<BatchPhotoStatus, string> = {
+  queued: 'Waiting',
+  detecting: 'Detecting food...',
+  identifying: 'Identifying...',
+  ready: 'Ready to review',
+  failed: 'Failed',
+};
+
+const isPending = (photo: BatchPhoto) => photo.status === 'queued' || photo.status === 'detecting' || photo.status === 'identifying';
+
+// Photos can be reviewed once analyzed; a failed one can still be reviewed if its image was read, by drawing boxes by hand.
+export const canReviewPhoto = (photo: BatchPhoto): boolean => !isPending(photo) && !!photo.image;
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({ photos, onReview, onRetry, onRemove, onDone }) => {
+  const analyzed = photos.filter(photo => !isPending(photo)).length;
+  const saved = photos.filter(photo => photo.meal).length;
+  const nextToReview = photos.find(photo => canReviewPhoto(photo) && !photo.meal);
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h2 className="text-2xl font-semibold text-white">Batch upload</h2>
+        <p className="text-sm text-gray-400" role="status">
+          {analyzed} of {photos.length} analyzed · {saved} saved
+        </p>
+      </div>
+      <div className="mt-3 h-1.5 w-full bg-gray-700 rounded-full overflow-hidden">
+        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${photos.length ? (analyzed / photos.length) * 100 : 0}%` }}></div>
+      </div>
+
+      <ul className="mt-4 divide-y divide-gray-700">
+        {photos.map((photo, index) => {
+          const totals = photo.status === 'ready' ? getMealTotals([...photo.boxes, ...photo.extraItems]) : null;
+          return (
+            <li key={photo.id} className="py-3 flex items-center gap-4">
+              {photo.image ? (
+                <img src={photo.image.imageUrl} alt="" className="w-16 h-16 object-cover rounded-md flex-shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded-md bg-gray-700 flex items-center justify-center flex-shrink-0">
+                  {isPending(photo) && <div className="w-6 h-6 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>}
+                </div>
+              )}
+              <div className="flex-grow min-w-0">
+                <p className="text-gray-100 truncate">{index + 1}. {photo.file.name}</p>
+                <p className={`text-sm ${photo.status === 'failed' ? 'text-red-400' : 'text-gray-400'}`}>
+                  {photo.meal
+                    ? `Saved · ${Math.round(photo.meal.totals.calories)} kcal`
+                    : photo.status === 'failed' && photo.error
+                      ? photo.error
+                      : totals
+                        ? `${totals.itemCount} ${totals.itemCount === 1 ? 'item' : 'items'} · ${Math.round(totals.calories)} kcal`
+                        : STATUS_LABELS[photo.status]}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {photo.status === 'failed' && (
+                  <button onClick={() => onRetry(photo.id)} className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+                    Retry
+                  </button>
+                )}
+                {canReviewPhoto(photo) && (
+                  <button onClick={() => onReview(photo.id)} className="px-3 py-1.5 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+                    {photo.meal ? 'Edit' : 'Review'}
+                  </button>
+                )}
+                {!isPending(photo) && (
+                  <button onClick={() => onRemove(photo.id)} className="px-2 py-1.5 text-sm text-gray-400 hover:text-white" aria-label={`Remove ${photo.file.name}`}>
+                    ✕
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div className="mt-4 flex items-center gap-2">
+        {nextToReview && (
+          <button onClick={() => onReview(nextToReview.id)} className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700">
+            Review next photo
+          </button>
+        )}
+        <button onClick={onDone} className="px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+          {analyzed === photos.length ? 'Done' : 'Stop and close'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,16 +1,37 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { decodeBarcodeFromSource } from '../utils/barcode';
+
+export type CameraMode = 'photo' | 'barcode' | 'label';
+
+const MODE_LABELS: Record<CameraMode, string> = {
+  photo: 'Photo',
+  barcode: 'Barcode',
+  label: 'Label',
+};
 
 interface CameraViewProps {
+  mode: CameraMode;
+  onModeChange: (mode: CameraMode) => void;
   onCapture: (file: File) => void;
+  onBarcode: (code: string) => void;
   onCancel: () => void;
+  modes?: CameraMode[];
 }
 
-export const CameraView: React.FC<CameraViewProps> = ({ onCapture, onCancel }) => {
+const ALL_MODES = Object.keys(MODE_LABELS) as CameraMode[];
+
+const SCAN_INTERVAL_MS = 250;
+const SCAN_TIMEOUT_MS = 10000;
+
+export const CameraView: React.FC<CameraViewProps> = ({ mode, onModeChange, onCapture, onBarcode, onCancel, modes = ALL_MODES }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isCapturing, setIsCapturing] = useState(false);
+  const [scanTimedOut, setScanTimedOut] = useState(false);
+  const onBarcodeRef = useRef(onBarcode);
+  onBarcodeRef.current = onBarcode;
 
   useEffect(() => {
     let isMounted = true;
@@ -46,6 +67,34 @@ export const CameraView: React.FC<CameraViewProps> = ({ onCapture, onCancel }) =
     };
   }, []);
   
+  // Decodes a downscaled frame a few times per second until a barcode is found.
+  useEffect(() => {
+    if (mode !== 'barcode' || error) return;
+    setScanTimedOut(false);
+    let isActive = true;
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      const video = videoRef.current;
+      if (!isActive || !video || !canvasRef.current || video.readyState < 2) return;
+      try {
+        const code = decodeBarcodeFromSource(video, video.videoWidth, video.videoHeight, 800, canvasRef.current);
+        if (code) {
+          isActive = false;
+          clearInterval(timer);
+          onBarcodeRef.current(code);
+          return;
+        }
+      } catch (err) {
+        console.error('Barcode scan failed:', err);
+      }
+      if (Date.now() - startedAt > SCAN_TIMEOUT_MS) setScanTimedOut(true);
+    }, SCAN_INTERVAL_MS);
+    return () => {
+      isActive = false;
+      clearInterval(timer);
+    };
+  }, [mode, error]);
+
   const handleCapture = useCallback(() => {
     if (!videoRef.current || !canvasRef.current || isCapturing) return;
 
@@ -86,6 +135,38 @@ export const CameraView: React.FC<CameraViewProps> = ({ onCapture, onCancel }) =
         />
         <canvas ref={canvasRef} className="hidden" />
 
+        {!error && modes.length > 1 && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 flex gap-1 p-1 bg-black/40 rounded-full backdrop-blur-sm z-10" role="group" aria-label="Camera mode">
+                {modes.map(option => (
+                    <button
+                        key={option}
+                        onClick={() => onModeChange(option)}
+                        aria-pressed={mode === option}
+                        className={`px-3 py-1 text-sm rounded-full ${mode === option ? 'bg-white text-gray-900' : 'text-white hover:bg-white/20'}`}
+                    >
+                        {MODE_LABELS[option]}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {!error && mode === 'label' && (
+            <p className="absolute top-16 left-1/2 -translate-x-1/2 px-3 py-1 text-sm text-white bg-black/50 rounded-full pointer-events-none whitespace-nowrap">
+                Fill the frame with the Nutrition Facts panel.
+            </p>
+        )}
+
+        {!error && mode === 'barcode' && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                <div className="w-3/4 h-1/3 flex items-center border-2 border-white/80 rounded-lg shadow-[0_0_0_9999px_rgba(0,0,0,0.35)]">
+                    <div className="w-full h-0.5 bg-red-500/80 animate-pulse"></div>
+                </div>
+                <p className="mt-4 px-3 py-1 text-sm text-white bg-black/50 rounded-full" role="status">
+                    {scanTimedOut ? 'No barcode found yet. Hold the code steady and well lit.' : 'Point the camera at an EAN or UPC barcode.'}
+                </p>
+            </div>
+        )}
+
         {error && (
             <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-center p-4 z-10">
                 <p className="text-red-400 mb-4">{error}</p>
@@ -108,14 +189,25 @@ export const CameraView: React.FC<CameraViewProps> = ({ onCapture, onCancel }) =
                     Cancel
                 </button>
 
-                <button
-                    onClick={handleCapture}
-                    disabled={isCapturing}
-                    className="w-16 h-16 rounded-full bg-white/90 p-1 flex items-center justify-center ring-2 ring-white ring-offset-4 ring-offset-black/20 focus:outline-none focus:ring-indigo-400 disabled:opacity-50 transition"
-                    aria-label="Take photo"
-                >
-                    <div className="w-full h-full rounded-full bg-white ring-2 ring-inset ring-black/50"></div>
-                </button>
+                {mode !== 'barcode' ? (
+                    <button
+                        onClick={handleCapture}
+                        disabled={isCapturing}
+                        className="w-16 h-16 rounded-full bg-white/90 p-1 flex items-center justify-center ring-2 ring-white ring-offset-4 ring-offset-black/20 focus:outline-none focus:ring-indigo-400 disabled:opacity-50 transition"
+                        aria-label={mode === 'label' ? 'Photograph label' : 'Take photo'}
+                    >
+                        <div className="w-full h-full rounded-full bg-white ring-2 ring-inset ring-black/50"></div>
+                    </button>
+                ) : scanTimedOut && modes.includes('photo') ? (
+                    <button
+                        onClick={() => onModeChange('photo')}
+                        className="px-4 py-2 text-sm bg-white/90 text-gray-900 rounded-full hover:bg-white"
+                    >
+                        Take a photo instead
+                    </button>
+                ) : (
+                    <div className="h-16" />
+                )}
             </div>
         )}
     </div>
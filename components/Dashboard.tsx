@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import type { MealEntry } from '../types';
+import { listMeals } from '../services/mealLogService';
+import { clearResponseCache, getResponseCacheStats, isResponseCacheEnabled } from '../services/responseCache';
+import type { CacheStats } from '../services/responseCache';
+import type { DedupeThresholds } from '../utils/geometry';
+import { getDailyTotals, getStreaks } from '../utils/mealStats';
+import { TrendChart } from './TrendChart';
+
+interface DashboardProps {
+  dailyCalorieTarget: number;
+  onTargetChange: (target: number) => void;
+  dedupe: DedupeThresholds;
+  onDedupeChange: (dedupe: DedupeThresholds) => void;
+  onBack: () => void;
+}
+
+const TREND_RANGES = [7, 30] as const;
+
+const DEDUPE_CONTROLS: { key: keyof DedupeThresholds; label: string; hint: string }[] = [
+  { key: 'iou', label: 'Overlap', hint: 'Boxes overlapping at least this much are treated as one item.' },
+  { key: 'containment', label: 'Nesting', hint: 'A box with at least this share inside a larger box is dropped.' },
+];
+
+export const Dashboard: React.FC<DashboardProps> = ({ dailyCalorieTarget, onTargetChange, dedupe, onDedupeChange, onBack }) => {
+  const [meals, setMeals] = useState<MealEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [range, setRange] = useState<(typeof TREND_RANGES)[number]>(7);
+  const [targetInput, setTargetInput] = useState(String(dailyCalorieTarget));
+  // 'unknown' when the stats could not be read; clearing stays available then
+  const [cacheStats, setCacheStats] = useState<CacheStats | 'unknown' | null>(null);
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const [cacheError, setCacheError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    listMeals()
+      .then(result => { if (isMounted) setMeals(result); })
+      .catch(err => {
+        console.error(err);
+        if (isMounted) setError('Could not load your meal log.');
+      });
+    return () => { isMounted = false; };
+  }, []);
+
+  useEffect(() => {
+    if (!isResponseCacheEnabled()) return;
+    let isMounted = true;
+    getResponseCacheStats()
+      .then(stats => { if (isMounted) setCacheStats(stats); })
+      .catch(err => {
+        console.warn('Could not read the response cache:', err);
+        if (isMounted) setCacheStats('unknown');
+      });
+    return () => { isMounted = false; };
+  }, []);
+
+  useEffect(() => {
+    setTargetInput(String(dailyCalorieTarget));
+  }, [dailyCalorieTarget]);
+
+  const handleClearCache = async () => {
+    setIsClearingCache(true);
+    setCacheError(null);
+    try {
+      await clearResponseCache();
+      setCacheStats({ entries: 0, byteSize: 0 });
+    } catch (err) {
+      console.error(err);
+      setCacheError('Could not clear the cache. Please try again.');
+    } finally {
+      setIsClearingCache(false);
+    }
+  };
+
+  const commitTarget = () => {
+    const value = Math.round(Number(targetInput));
+    if (Number.isFinite(value) && value > 0) {
+      onTargetChange(value);
+    } else {
+      setTargetInput(String(dailyCalorieTarget));
+    }
+  };
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-2xl font-semibold text-white">Dashboard</h2>
+      <button
+        onClick={onBack}
+        className="px-4 py-2 text-sm border border-gray-600 rounded-md text-white bg-gray-700 hover:bg-gray-600"
+      >
+        Back
+      </button>
+    </div>
+  );
+
+  if (error || !meals) {
+    return (
+      <div className="w-full">
+        {header}
+        {error ? (
+          <p className="text-red-400">{error}</p>
+        ) : (
+          <div className="flex justify-center py-8">
+            <div className="w-10 h-10 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const trend = getDailyTotals(meals, range);
+  const lastWeek = getDailyTotals(meals, 7);
+  const today = lastWeek[lastWeek.length - 1];
+  const remaining = dailyCalorieTarget - today.calories;
+  const progress = Math.min(1, today.calories / dailyCalorieTarget);
+  const streaks = getStreaks(meals, dailyCalorieTarget);
+  const loggedDays = trend.filter(day => day.mealCount > 0);
+  const average = loggedDays.length > 0
+    ? Math.round(loggedDays.reduce((sum, day) => sum + day.calories, 0) / loggedDays.length)
+    : 0;
+
+  return (
+    <div className="w-full">
+      {header}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <section className="sm:col-span-2 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Today">
+          <h3 className="text-sm uppercase tracking-wide text-gray-500">Today</h3>
+          <p className="mt-1 text-3xl font-bold text-white">
+            {Math.round(today.calories)} <span className="text-base font-medium text-gray-400">/ {dailyCalorieTarget} kcal</span>
+          </p>
+          <div className="mt-3 h-3 w-full overflow-hidden rounded-full bg-gray-700" role="progressbar"
+            aria-valuemin={0} aria-valuemax={dailyCalorieTarget} aria-valuenow={Math.round(today.calories)}>
+            <div className={remaining < 0 ? 'h-full bg-rose-500' : 'h-full bg-emerald-500'} style={{ width: `${progress * 100}%` }} />
+          </div>
+          <p className={`mt-2 text-sm ${remaining < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+            {remaining >= 0
+              ? `${Math.round(remaining)} kcal remaining`
+              : `${Math.round(-remaining)} kcal over target`}
+          </p>
+          <label className="mt-4 flex items-center gap-2 text-sm text-gray-400">
+            Daily target
+            <input
+              type="number"
+              min={1}
+              step={50}
+              value={targetInput}
+              onChange={(e) => setTargetInput(e.target.value)}
+              onBlur={commitTarget}
+              onKeyDown={(e) => { if (e.key === 'Enter') commitTarget(); }}
+              className="w-24 px-2 py-1 text-right bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            kcal
+          </label>
+        </section>
+
+        <section className="p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Streaks">
+          <h3 className="text-sm uppercase tracking-wide text-gray-500">Streaks</h3>
+          <dl className="mt-2 space-y-2">
+            <div className="flex justify-between">
+              <dt className="text-gray-400">Logging</dt>
+              <dd className="font-semibold text-white">{streaks.currentLogging} {streaks.currentLogging === 1 ? 'day' : 'days'}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-400">On target</dt>
+              <dd className="font-semibold text-white">{streaks.currentOnTarget} {streaks.currentOnTarget === 1 ? 'day' : 'days'}</dd>
+            </div>
+            <div className="flex justify-between">
+              <dt className="text-gray-400">Best logging</dt>
+              <dd className="font-semibold text-white">{streaks.longestLogging} {streaks.longestLogging === 1 ? 'day' : 'days'}</dd>
+            </div>
+          </dl>
+        </section>
+      </div>
+
+      <section className="mt-4 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Calorie trend">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm uppercase tracking-wide text-gray-500">Trend</h3>
+          <div className="flex gap-1" role="group" aria-label="Trend range">
+            {TREND_RANGES.map(days => (
+              <button
+                key={days}
+                onClick={() => setRange(days)}
+                aria-pressed={range === days}
+                className={`px-3 py-1 text-xs rounded-md ${range === days ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+              >
+                {days} days
+              </button>
+            ))}
+          </div>
+        </div>
+        <TrendChart days={trend} target={dailyCalorieTarget} />
+        <p className="mt-2 text-sm text-gray-400">
+          Average on logged days: <span className="font-semibold text-gray-200">{average} kcal</span>
+        </p>
+      </section>
+
+      <section className="mt-4 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Daily totals">
+        <h3 className="text-sm uppercase tracking-wide text-gray-500 mb-2">Last 7 days</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium py-1">Day</th>
+              <th className="font-medium py-1 text-right">Meals</th>
+              <th className="font-medium py-1 text-right">Calories</th>
+              <th className="font-medium py-1 text-right">vs. target</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-800">
+            {[...lastWeek].reverse().map(day => {
+              const delta = Math.round(day.calories - dailyCalorieTarget);
+              return (
+                <tr key={day.dayKey} className="text-gray-300">
+                  <td className="py-1.5">{new Date(day.date).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}</td>
+                  <td className="py-1.5 text-right">{day.mealCount}</td>
+                  <td className="py-1.5 text-right font-semibold">{Math.round(day.calories)}</td>
+                  <td className={`py-1.5 text-right ${day.mealCount === 0 ? 'text-gray-600' : delta > 0 ? 'text-rose-400' : 'text-emerald-400'}`}>
+                    {day.mealCount === 0 ? '–' : `${delta > 0 ? '+' : ''}${delta}`}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="mt-4 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Duplicate detection">
+        <h3 className="text-sm uppercase tracking-wide text-gray-500">Duplicate boxes</h3>
+        <p className="mt-1 text-sm text-gray-400">Detected boxes that repeat another box are removed before you edit them. Set a threshold to 100% to keep only exact repeats.</p>
+        <div className="mt-3 grid gap-3 sm:grid-cols-2">
+          {DEDUPE_CONTROLS.map(({ key, label, hint }) => (
+            <label key={key} className="text-sm text-gray-400" title={hint}>
+              <span className="flex justify-between">
+                {label}
+                <span className="font-semibold text-gray-200">{Math.round(dedupe[key] * 100)}%</span>
+              </span>
+              <input
+                type="range"
+                min={50}
+                max={100}
+                step={5}
+                value={Math.round(dedupe[key] * 100)}
+                onChange={(e) => onDedupeChange({ ...dedupe, [key]: Number(e.target.value) / 100 })}
+                className="mt-1 w-full accent-indigo-500"
+                aria-description={hint}
+              />
+            </label>
+          ))}
+        </div>
+      </section>
+
+      {isResponseCacheEnabled() && (
+        <section className="mt-4 p-4 bg-gray-900/60 border border-gray-700 rounded-lg flex flex-wrap items-center justify-between gap-2" aria-label="Analysis cache">
+          <div>
+            <h3 className="text-sm uppercase tracking-wide text-gray-500">Analysis cache</h3>
+            <p className="mt-1 text-sm text-gray-400">
+              {cacheStats === null
+                ? 'Reading saved responses...'
+                : cacheStats === 'unknown'
+                ? 'Saved responses of unknown size.'
+                : `${cacheStats.entries} saved ${cacheStats.entries === 1 ? 'response' : 'responses'} (${Math.max(1, Math.round(cacheStats.byteSize / 1024))} KB).`} Photos analyzed before are answered from here.
+            </p>
+            {cacheError && <p className="mt-1 text-sm text-red-400" role="alert">{cacheError}</p>}
+          </div>
+          <button
+            onClick={handleClearCache}
+            disabled={isClearingCache || (cacheStats !== 'unknown' && cacheStats?.entries === 0)}
+            className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+          >
+            Clear cache
+          </button>
+        </section>
+      )}
+    </div>
+  );
+};
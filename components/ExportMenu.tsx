@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import type { MealItem, UserBox } from '../types';
+import { buildItemsCsv, buildMealJson, downloadBlob, renderAnnotatedImage } from '../services/exportService';
+import { getVisionProvider } from '../services/visionService';
+import { toDateTimeLocalValue } from '../utils/date';
+
+interface ExportMenuProps {
+  imageUrl: string | null;
+  imageDimensions: { width: number; height: number } | null;
+  boxes: UserBox[];
+  extraItems: MealItem[];
+  timestamp: number;
+}
+
+type ExportFormat = 'png' | 'json' | 'csv';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: 'Annotated image',
+  json: 'JSON',
+  csv: 'CSV',
+};
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ imageUrl, imageDimensions, boxes, extraItems, timestamp }) => {
+  const [pending, setPending] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    const filename = `meal-${toDateTimeLocalValue(timestamp).replace('T', '-').replace(':', '')}`;
+    setPending(format);
+    setError(null);
+    try {
+      if (format === 'png' && imageUrl) {
+        downloadBlob(await renderAnnotatedImage(imageUrl, boxes), `${filename}.png`);
+      } else if (format === 'json') {
+        const json = buildMealJson({ imageDimensions, boxes, extraItems, timestamp, provider: getVisionProvider() });
+        downloadBlob(new Blob([json], { type: 'application/json' }), `${filename}.json`);
+      } else if (format === 'csv') {
+        downloadBlob(new Blob([buildItemsCsv(boxes, extraItems)], { type: 'text/csv;charset=utf-8' }), `${filename}.csv`);
+      }
+    } catch (err) {
+      console.error(err);
+      setError(`Could not export the ${FORMAT_LABELS[format]}.`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <section className="w-full max-w-2xl mx-auto mt-6 flex flex-wrap items-center gap-2" aria-label="Export">
+      <span className="text-sm text-gray-400 mr-1">Export</span>
+      {(Object.keys(FORMAT_LABELS) as ExportFormat[]).filter(format => format !== 'png' || imageUrl).map(format => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={pending !== null}
+          className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+        >
+          {pending === format ? 'Exporting...' : FORMAT_LABELS[format]}
+        </button>
+      ))}
+      {error && <p className="w-full text-sm text-red-400" role="alert">{error}</p>}
+    </section>
+  );
+};
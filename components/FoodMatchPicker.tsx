@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import type { FoodReference } from '../types';
+import { loadFoodDatabase } from '../services/nutritionDatabase';
+import type { FoodDatabase } from '../services/nutritionDatabase';
+
+interface FoodMatchPickerProps {
+  initialQuery: string;
+  currentFoodId?: string;
+  canUseModelEstimate: boolean;
+  onSelect: (food: FoodReference) => void;
+  onUseModelEstimate: () => void;
+  onClose: () => void;
+}
+
+export const FoodMatchPicker: React.FC<FoodMatchPickerProps> = ({ initialQuery, currentFoodId, canUseModelEstimate, onSelect, onUseModelEstimate, onClose }) => {
+  const [database, setDatabase] = useState<FoodDatabase | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState(initialQuery);
+
+  useEffect(() => {
+    let isMounted = true;
+    loadFoodDatabase()
+      .then(result => { if (isMounted) setDatabase(result); })
+      .catch(err => {
+        console.error(err);
+        if (isMounted) setError('Could not load the nutrition database.');
+      });
+    return () => { isMounted = false; };
+  }, []);
+
+  const results = database ? database.search(query) : [];
+
+  return (
+    <div
+      className="mt-3 p-3 bg-gray-800/80 border border-gray-700 rounded-md"
+      onKeyDown={(e) => { if (e.key === 'Escape') onClose(); }}
+    >
+      <div className="flex items-center gap-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search foods"
+          className="flex-grow px-2 py-1 text-sm bg-gray-900 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          aria-label="Search the nutrition database"
+          autoFocus
+        />
+        <button onClick={onClose} className="px-2 py-1 text-xs rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">Close</button>
+      </div>
+      {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+      {database && (
+        <>
+          <ul className="mt-2 max-h-56 overflow-y-auto divide-y divide-gray-700" aria-label="Matching foods">
+            {results.length === 0 && <li className="py-2 text-sm text-gray-500">No matching foods.</li>}
+            {results.map(({ food }) => (
+              <li key={food.id}>
+                <button
+                  onClick={() => onSelect(food)}
+                  aria-current={food.id === currentFoodId ? 'true' : undefined}
+                  className={`w-full flex items-baseline justify-between gap-4 py-2 text-left text-sm hover:bg-gray-700/60 ${food.id === currentFoodId ? 'text-indigo-300' : 'text-gray-200'}`}
+                >
+                  <span>{food.name}</span>
+                  <span className="text-xs text-gray-400 whitespace-nowrap">{food.energyDensity} kcal/100 g</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-2 flex items-center justify-between gap-2">
+            <span className="text-[10px] text-gray-500">Source: {database.source}</span>
+            {currentFoodId && canUseModelEstimate && (
+              <button onClick={onUseModelEstimate} className="px-2 py-1 text-xs rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+                Use model estimate
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,20 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import type { UserBox, BoundingBox } from '../types';
+import React, { useRef, useState, useEffect, useCallback, useId } from 'react';
+import type { UserBox, BoundingBox, Point } from '../types';
+import { formatMacro, isLowConfidence, MACRO_KEYS, MACRO_LABELS, needsIdentification } from '../utils/nutrition';
+import { polygonArea, setRegionBounds, setRegionPolygon, simplifyPath, splitRegion, toLocalPoints, unionBounds } from '../utils/geometry';
+import type { SplitDirection } from '../utils/geometry';
+import { UndoIcon, RedoIcon } from './icons/Icons';
+import { useZoomPan, MIN_ZOOM, MAX_ZOOM } from '../hooks/useZoomPan';
+
+export interface EditHistoryControls {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Called around a continuous drag so it can be recorded as a single history entry
+  onEditStart: () => void;
+  onEditEnd: () => void;
+}
 
 interface ImageAnalysisDisplayProps {
   imageUrl: string;
@@ -8,21 +23,82 @@ interface ImageAnalysisDisplayProps {
   onBoxesChange: (boxes: UserBox[]) => void;
   isEditing: boolean;
   isLoading: boolean;
+  history?: EditHistoryControls;
+  onItemSelect?: (boxId: string) => void;
+  highlightedBoxId?: string | null;
+  onBoxClick?: (boxId: string) => void;
 }
 
+// Rectangles are dragged out; polygons are drawn by tapping vertices; a lasso follows a freehand path.
+type DrawTool = 'box' | 'polygon' | 'lasso';
+
 type InteractionMode = 
   | { mode: 'none' }
   | { mode: 'drawing'; startX: number; startY: number; }
-  | { mode: 'moving'; boxId: string; startX: number; startY: number; startBox: BoundingBox; }
-  | { mode: 'resizing'; boxId: string; handle: string; startX: number; startY: number; startBox: BoundingBox; };
+  | { mode: 'lasso'; points: Point[]; }
+  | { mode: 'moving'; boxId: string; startX: number; startY: number; startBox: BoundingBox; startPolygon?: Point[]; }
+  | { mode: 'resizing'; boxId: string; handle: string; startX: number; startY: number; startBox: BoundingBox; startPolygon?: Point[]; }
+  | { mode: 'vertex'; boxId: string; index: number; startPolygon: Point[]; }
+  | { mode: 'panning'; startClientX: number; startClientY: number; startViewX: number; startViewY: number; }
+  | { mode: 'pinching'; startDistance: number; startScale: number; startMidX: number; startMidY: number; startViewX: number; startViewY: number; };
 
 const uuid = () => crypto.randomUUID();
 
-export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imageUrl, imageDimensions, boxes, onBoxesChange, isEditing, isLoading }) => {
+// Keyboard editing steps, in normalized image units
+const KEYBOARD_STEP = 0.01;
+const CURSOR_STEP = 0.02;
+const MIN_BOX_SIZE = 0.01;
+const NEW_BOX_SIZE = 0.2;
+const ZOOM_STEP = 1.5;
+// Tapping this close to the first vertex, in screen pixels, closes the polygon.
+const CLOSE_DISTANCE_PX = 12;
+const LASSO_MIN_STEP = 0.004;
+const LASSO_TOLERANCE = 0.003;
+const MIN_POLYGON_AREA = 0.0004;
+const MIN_POLYGON_POINTS = 3;
+const WHEEL_ZOOM_SENSITIVITY = 0.0015;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Identified boxes that were moved or resized since; they are sent again on the next identify.
+const isChangedSinceIdentified = (box: UserBox) => !!box.name && needsIdentification(box);
+
+const DRAW_TOOLS: { tool: DrawTool; label: string; hint: string }[] = [
+  { tool: 'box', label: 'Box', hint: 'Drag to draw a rectangle' },
+  { tool: 'polygon', label: 'Polygon', hint: 'Tap each corner, then tap the first point or press Enter to close' },
+  { tool: 'lasso', label: 'Lasso', hint: 'Drag around the food' },
+];
+
+const describeBox = (box: UserBox, index: number, total: number) => {
+  const { x, y, width, height } = box.boundingBox;
+  const shape = box.polygon ? `, outlined with ${box.polygon.length} points` : '';
+  const label = box.notFood ? 'not food' : box.name ? `${box.name}, ${box.calories} kcal` : 'unidentified';
+  const changed = isChangedSinceIdentified(box) ? ', changed since identified' : '';
+  const unsure = isLowConfidence(box) ? ', low confidence' : '';
+  return `Box ${index + 1} of ${total}: ${label}${unsure}${changed}${shape}. Left ${percent(x)}, top ${percent(y)}, width ${percent(width)}, height ${percent(height)}.`;
+};
+
+export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imageUrl, imageDimensions, boxes, onBoxesChange, isEditing, isLoading, history, onItemSelect, highlightedBoxId, onBoxClick }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [imgRenderedSize, setImgRenderedSize] = useState({ width: 0, height: 0, offsetX: 0, offsetY: 0 });
+  const [imgRenderedSize, setImgRenderedSize] = useState({ width: 0, height: 0, offsetX: 0, offsetY: 0, containerWidth: 0, containerHeight: 0 });
   const [activeBoxId, setActiveBoxId] = useState<string | null>(null);
   const [interaction, setInteraction] = useState<InteractionMode>({ mode: 'none' });
+  const [drawTool, setDrawTool] = useState<DrawTool>('box');
+  const [draftPolygon, setDraftPolygon] = useState<Point[]>([]);
+  // Boxes selected along with the active one, for merging
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isMultiSelect, setIsMultiSelect] = useState(false);
+  const [cursor, setCursor] = useState({ x: 0.5, y: 0.5 });
+  const [isCursorVisible, setIsCursorVisible] = useState(false);
+  const [pendingFocusId, setPendingFocusId] = useState<string | null>(null);
+  const [editorMessage, setEditorMessage] = useState('');
+  const boxRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const instructionsId = useId();
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const { view, viewRect, setView, zoomBy, centerOn, resetView } = useZoomPan(imgRenderedSize);
+  const viewScaleRef = useRef(view.scale);
+  viewScaleRef.current = view.scale;
 
   const labelRefs = useRef<Map<string, HTMLDivElement | null>>(new Map());
   const [labelStyles, setLabelStyles] = useState<{ [id: string]: React.CSSProperties }>({});
@@ -46,7 +122,7 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
       width = height * imageAR;
       offsetX = (containerWidth - width) / 2;
     }
-    setImgRenderedSize({ width, height, offsetX, offsetY });
+    setImgRenderedSize({ width, height, offsetX, offsetY, containerWidth, containerHeight });
   }, [imageDimensions]);
 
   useEffect(() => {
@@ -54,6 +130,55 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
     window.addEventListener('resize', calculateImageRenderSize);
     return () => window.removeEventListener('resize', calculateImageRenderSize);
   }, [calculateImageRenderSize]);
+
+  useEffect(() => {
+    resetView();
+  }, [imageUrl, resetView]);
+
+  useEffect(() => {
+    setDraftPolygon([]);
+  }, [imageUrl, isEditing]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      // Let the page scroll when there is nothing left to zoom out of.
+      if (e.deltaY > 0 && viewScaleRef.current <= MIN_ZOOM) return;
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomBy(Math.exp(-e.deltaY * WHEEL_ZOOM_SENSITIVITY), e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoomBy]);
+
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null;
+      return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(el.tagName));
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== ' ' || isTyping(e.target)) return;
+      // Only take over the space bar while the editor is hovered or focused, so it still scrolls the page elsewhere.
+      const container = containerRef.current;
+      if (!container || !(container.matches(':hover') || container.contains(document.activeElement))) return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
   
   useEffect(() => {
     // We only run this logic when displaying results, not during editing.
@@ -125,44 +250,112 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
     }, 150); // A small delay is needed for layout to stabilize
 
     return () => clearTimeout(timer);
-  }, [boxes, isEditing, isLoading, imgRenderedSize]);
+  }, [boxes, isEditing, isLoading, viewRect]);
 
 
   const toImageCoords = useCallback((clientX: number, clientY: number) => {
     if (!containerRef.current) return null;
     const rect = containerRef.current.getBoundingClientRect();
-    const x = (clientX - rect.left - imgRenderedSize.offsetX) / imgRenderedSize.width;
-    const y = (clientY - rect.top - imgRenderedSize.offsetY) / imgRenderedSize.height;
+    const x = (clientX - rect.left - viewRect.offsetX) / viewRect.width;
+    const y = (clientY - rect.top - viewRect.offsetY) / viewRect.height;
     return { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) };
-  }, [imgRenderedSize]);
+  }, [viewRect]);
   
   const toScreenStyle = (box: BoundingBox) => ({
-    left: `${imgRenderedSize.offsetX + box.x * imgRenderedSize.width}px`,
-    top: `${imgRenderedSize.offsetY + box.y * imgRenderedSize.height}px`,
-    width: `${box.width * imgRenderedSize.width}px`,
-    height: `${box.height * imgRenderedSize.height}px`,
+    left: `${viewRect.offsetX + box.x * viewRect.width}px`,
+    top: `${viewRect.offsetY + box.y * viewRect.height}px`,
+    width: `${box.width * viewRect.width}px`,
+    height: `${box.height * viewRect.height}px`,
   });
 
-  const handleInteractionStart = useCallback((clientX: number, clientY: number, targetElement: EventTarget | null) => {
+  // Adds a polygon region when the outline is big enough; returns whether it was added.
+  const addPolygonRegion = useCallback((points: Point[]) => {
+    if (points.length < MIN_POLYGON_POINTS || polygonArea(points) < MIN_POLYGON_AREA) {
+      setEditorMessage('The outline was too small, so no region was added.');
+      return false;
+    }
+    const newBox = setRegionPolygon<UserBox>({ id: uuid(), boundingBox: { x: 0, y: 0, width: 0, height: 0 } }, points);
+    onBoxesChange([...boxes, newBox]);
+    setActiveBoxId(newBox.id);
+    setEditorMessage(`Region added with ${points.length} points. Box ${boxes.length + 1} of ${boxes.length + 1}.`);
+    return true;
+  }, [boxes, onBoxesChange]);
+
+  const finishDraftPolygon = () => {
+    if (draftPolygon.length < MIN_POLYGON_POINTS) return;
+    addPolygonRegion(draftPolygon);
+    setDraftPolygon([]);
+  };
+
+  const cancelDraftPolygon = () => {
+    setDraftPolygon([]);
+    setEditorMessage('Polygon cancelled.');
+  };
+
+  // Each tap adds a vertex, even on top of other boxes, so overlapping foods can be outlined; tapping the first vertex closes it.
+  const addDraftVertex = useCallback((point: Point) => {
+    const first = draftPolygon[0];
+    const last = draftPolygon[draftPolygon.length - 1];
+    // A tap can arrive twice, as a touch and then as an emulated mouse event.
+    if (last && Math.hypot((point.x - last.x) * viewRect.width, (point.y - last.y) * viewRect.height) < 4) return;
+    const nearFirst = !!first && Math.hypot((point.x - first.x) * viewRect.width, (point.y - first.y) * viewRect.height) <= CLOSE_DISTANCE_PX;
+    if (nearFirst && draftPolygon.length >= MIN_POLYGON_POINTS) {
+      addPolygonRegion(draftPolygon);
+      setDraftPolygon([]);
+    } else if (!nearFirst) {
+      setDraftPolygon([...draftPolygon, point]);
+      setActiveBoxId(null);
+    }
+  }, [draftPolygon, viewRect.width, viewRect.height, addPolygonRegion]);
+
+  // Adds a box to the selection, or takes it out when it is already selected.
+  const toggleSelection = useCallback((boxId: string) => {
+    if (boxId === activeBoxId) {
+      setActiveBoxId(selectedIds[0] ?? null);
+      setSelectedIds(selectedIds.slice(1));
+    } else if (selectedIds.includes(boxId)) {
+      setSelectedIds(selectedIds.filter(id => id !== boxId));
+    } else if (!activeBoxId) {
+      setActiveBoxId(boxId);
+    } else {
+      setSelectedIds([...selectedIds, boxId]);
+    }
+  }, [activeBoxId, selectedIds]);
+
+  const handleInteractionStart = useCallback((clientX: number, clientY: number, targetElement: EventTarget | null, additive = false) => {
     if (!isEditing || !containerRef.current || !targetElement) return;
     const coords = toImageCoords(clientX, clientY);
     if (!coords) return;
     
+    // SVG elements have a dataset too, so polygon outlines and box divs are handled alike.
     const target = targetElement as HTMLElement;
-    const boxId = target.dataset.boxId;
-    const handle = target.dataset.handle;
+    const boxId = target.dataset?.boxId;
+    const handle = target.dataset?.handle;
+    const vertex = target.dataset?.vertex;
 
-    if (handle && boxId) {
-        const startBox = boxes.find(b => b.id === boxId)?.boundingBox;
-        if(startBox) {
-            setInteraction({ mode: 'resizing', boxId, handle, startX: coords.x, startY: coords.y, startBox });
-        }
-    } else if (boxId) {
-        const startBox = boxes.find(b => b.id === boxId)?.boundingBox;
-        if (startBox) {
-            setActiveBoxId(boxId);
-            setInteraction({ mode: 'moving', boxId, startX: coords.x, startY: coords.y, startBox });
-        }
+    if (drawTool === 'polygon' && (draftPolygon.length > 0 || !boxId)) {
+        addDraftVertex(coords);
+        return;
+    }
+
+    const startBox = boxes.find(b => b.id === boxId);
+    if ((additive || isMultiSelect) && startBox && !handle && vertex === undefined) {
+        toggleSelection(startBox.id);
+        return;
+    }
+    setSelectedIds([]);
+
+    history?.onEditStart();
+    if (vertex !== undefined && startBox?.polygon) {
+        setInteraction({ mode: 'vertex', boxId: startBox.id, index: Number(vertex), startPolygon: startBox.polygon });
+    } else if (handle && startBox) {
+        setInteraction({ mode: 'resizing', boxId: startBox.id, handle, startX: coords.x, startY: coords.y, startBox: startBox.boundingBox, startPolygon: startBox.polygon });
+    } else if (startBox) {
+        setActiveBoxId(startBox.id);
+        setInteraction({ mode: 'moving', boxId: startBox.id, startX: coords.x, startY: coords.y, startBox: startBox.boundingBox, startPolygon: startBox.polygon });
+    } else if (drawTool === 'lasso') {
+        setActiveBoxId(null);
+        setInteraction({ mode: 'lasso', points: [coords] });
     } else {
         setActiveBoxId(null);
         const newBox: UserBox = { id: uuid(), boundingBox: { x: coords.x, y: coords.y, width: 0, height: 0 } };
@@ -170,13 +363,33 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
         setActiveBoxId(newBox.id);
         setInteraction({ mode: 'drawing', startX: coords.x, startY: coords.y });
     }
-  }, [isEditing, toImageCoords, boxes, onBoxesChange]);
+  }, [isEditing, toImageCoords, boxes, onBoxesChange, history, drawTool, draftPolygon.length, addDraftVertex, isMultiSelect, toggleSelection]);
 
   const handleInteractionMove = useCallback((clientX: number, clientY: number) => {
-    if (interaction.mode === 'none' || !isEditing) return;
+    if (interaction.mode === 'panning') {
+      setView({
+        scale: view.scale,
+        x: interaction.startViewX + clientX - interaction.startClientX,
+        y: interaction.startViewY + clientY - interaction.startClientY,
+      });
+      return;
+    }
+    if (interaction.mode === 'none' || interaction.mode === 'pinching' || !isEditing) return;
     const coords = toImageCoords(clientX, clientY);
     if (!coords) return;
 
+    if (interaction.mode === 'lasso') {
+      const last = interaction.points[interaction.points.length - 1];
+      if (Math.hypot(coords.x - last.x, coords.y - last.y) >= LASSO_MIN_STEP) {
+        setInteraction({ mode: 'lasso', points: [...interaction.points, coords] });
+      }
+    }
+
+    if (interaction.mode === 'vertex') {
+      const { boxId, index } = interaction;
+      onBoxesChange(boxes.map(b => b.id === boxId && b.polygon ? setRegionPolygon(b, b.polygon.map((point, i) => i === index ? coords : point)) : b));
+    }
+
     if (interaction.mode === 'drawing') {
       const { startX, startY } = interaction;
       const x = Math.min(startX, coords.x);
@@ -187,7 +400,7 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
     }
     
     if (interaction.mode === 'moving') {
-      const { boxId, startX, startY, startBox } = interaction;
+      const { boxId, startX, startY, startBox, startPolygon } = interaction;
       const dx = coords.x - startX;
       const dy = coords.y - startY;
       let newX = startBox.x + dx;
@@ -196,11 +409,11 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
       newX = Math.max(0, Math.min(1 - startBox.width, newX));
       newY = Math.max(0, Math.min(1 - startBox.height, newY));
 
-      onBoxesChange(boxes.map(b => b.id === boxId ? { ...b, boundingBox: { ...b.boundingBox, x: newX, y: newY } } : b));
+      onBoxesChange(boxes.map(b => b.id === boxId ? setRegionBounds({ ...b, boundingBox: startBox, polygon: startPolygon }, { ...startBox, x: newX, y: newY }) : b));
     }
 
     if (interaction.mode === 'resizing') {
-        const { boxId, handle, startX, startY, startBox } = interaction;
+        const { boxId, handle, startX, startY, startBox, startPolygon } = interaction;
         let { x, y, width, height } = startBox;
         const dx = coords.x - startX;
         const dy = coords.y - startY;
@@ -213,11 +426,19 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
         if (width < 0) { x += width; width = -width; }
         if (height < 0) { y += height; height = -height; }
         
-        onBoxesChange(boxes.map(b => b.id === boxId ? { ...b, boundingBox: { x, y, width, height } } : b));
+        onBoxesChange(boxes.map(b => b.id === boxId ? setRegionBounds({ ...b, boundingBox: startBox, polygon: startPolygon }, { x, y, width, height }) : b));
     }
-  }, [interaction, isEditing, toImageCoords, boxes, onBoxesChange, activeBoxId]);
+  }, [interaction, isEditing, toImageCoords, boxes, onBoxesChange, activeBoxId, setView, view.scale]);
 
   const handleInteractionEnd = useCallback(() => {
+    if (interaction.mode === 'none') return;
+    if (interaction.mode === 'panning' || interaction.mode === 'pinching') {
+      setInteraction({ mode: 'none' });
+      return;
+    }
+    if (interaction.mode === 'lasso') {
+        addPolygonRegion(simplifyPath(interaction.points, LASSO_TOLERANCE));
+    }
     if (interaction.mode === 'drawing' || interaction.mode === 'resizing') {
         // Remove zero-sized boxes
         const newBoxes = boxes.filter(b => b.boundingBox.width > 0.005 && b.boundingBox.height > 0.005);
@@ -225,11 +446,67 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
             onBoxesChange(newBoxes);
         }
     }
+    history?.onEditEnd();
     setInteraction({ mode: 'none' });
-  }, [interaction.mode, boxes, onBoxesChange]);
+  }, [interaction, boxes, onBoxesChange, history, addPolygonRegion]);
+
+  useEffect(() => {
+    if (!isEditing || !history) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        history.onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        history.onRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditing, history]);
   
+  // Abandons a drag in progress, e.g. when a second finger turns it into a pinch.
+  const cancelInteraction = () => {
+    if (interaction.mode === 'drawing') {
+      onBoxesChange(boxes.filter(b => b.id !== activeBoxId));
+      setActiveBoxId(null);
+    } else if (interaction.mode === 'moving' || interaction.mode === 'resizing') {
+      const { boxId, startBox, startPolygon } = interaction;
+      onBoxesChange(boxes.map(b => b.id === boxId ? { ...b, boundingBox: startBox, polygon: startPolygon } : b));
+    } else if (interaction.mode === 'vertex') {
+      const { boxId, startPolygon } = interaction;
+      onBoxesChange(boxes.map(b => b.id === boxId ? setRegionPolygon(b, startPolygon) : b));
+    }
+    if (interaction.mode !== 'none' && interaction.mode !== 'panning' && interaction.mode !== 'pinching') {
+      history?.onEditEnd();
+    }
+    setInteraction({ mode: 'none' });
+  };
+
+  const startPan = (clientX: number, clientY: number) => {
+    setInteraction({ mode: 'panning', startClientX: clientX, startClientY: clientY, startViewX: view.x, startViewY: view.y });
+  };
+
+  const toContainerPoint = (clientX: number, clientY: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return { x: clientX - (rect?.left ?? 0), y: clientY - (rect?.top ?? 0) };
+  };
+
+  const zoomAroundCenter = (factor: number) => {
+    zoomBy(factor, imgRenderedSize.containerWidth / 2, imgRenderedSize.containerHeight / 2);
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    handleInteractionStart(e.clientX, e.clientY, e.target);
+    if (isSpaceHeld || e.button === 1 || (!isEditing && view.scale > MIN_ZOOM)) {
+      e.preventDefault();
+      startPan(e.clientX, e.clientY);
+      return;
+    }
+    handleInteractionStart(e.clientX, e.clientY, e.target, e.shiftKey || e.ctrlKey || e.metaKey);
   };
   
   const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -239,107 +516,563 @@ export const ImageAnalysisDisplay: React.FC<ImageAnalysisDisplayProps> = ({ imag
   };
 
   const handleTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (e.touches.length >= 2) {
+      cancelInteraction();
+      const [a, b] = [e.touches[0], e.touches[1]];
+      const mid = toContainerPoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2);
+      setInteraction({
+        mode: 'pinching',
+        startDistance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY) || 1,
+        startScale: view.scale,
+        startMidX: mid.x,
+        startMidY: mid.y,
+        startViewX: view.x,
+        startViewY: view.y,
+      });
+      return;
+    }
+    if (interaction.mode === 'pinching') return;
     const touch = e.touches[0];
+    if (!isEditing && view.scale > MIN_ZOOM) {
+      startPan(touch.clientX, touch.clientY);
+      return;
+    }
     handleInteractionStart(touch.clientX, touch.clientY, touch.target);
   };
 
   const handleTouchMove = (e: React.TouchEvent<HTMLDivElement>) => {
+    if (interaction.mode === 'pinching') {
+      if (e.touches.length < 2) return;
+      const [a, b] = [e.touches[0], e.touches[1]];
+      const mid = toContainerPoint((a.clientX + b.clientX) / 2, (a.clientY + b.clientY) / 2);
+      const distance = Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY);
+      const scale = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, interaction.startScale * distance / interaction.startDistance));
+      // Keep the image point that was under the fingers' midpoint under it, which also pans with two fingers.
+      const ratio = scale / interaction.startScale;
+      setView({
+        scale,
+        x: mid.x - (interaction.startMidX - interaction.startViewX) * ratio,
+        y: mid.y - (interaction.startMidY - interaction.startViewY) * ratio,
+      });
+      return;
+    }
     if (interaction.mode !== 'none') {
       const touch = e.touches[0];
       handleInteractionMove(touch.clientX, touch.clientY);
     }
   };
 
+  const handleMinimapPointer = (clientX: number, clientY: number, target: HTMLElement) => {
+    const rect = target.getBoundingClientRect();
+    const u = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    const v = Math.max(0, Math.min(1, (clientY - rect.top) / rect.height));
+    centerOn(u, v, imgRenderedSize.containerWidth / 2, imgRenderedSize.containerHeight / 2);
+  };
+
+  const visibleRegion = {
+    left: Math.max(0, -viewRect.offsetX / viewRect.width),
+    top: Math.max(0, -viewRect.offsetY / viewRect.height),
+    right: Math.min(1, (imgRenderedSize.containerWidth - viewRect.offsetX) / viewRect.width),
+    bottom: Math.min(1, (imgRenderedSize.containerHeight - viewRect.offsetY) / viewRect.height),
+  };
+  const isZoomed = view.scale > MIN_ZOOM;
+
   const handleDelete = (boxId: string) => {
     onBoxesChange(boxes.filter(b => b.id !== boxId));
+    setEditorMessage('Box deleted.');
   }
+
+  const selection = boxes.filter(b => b.id === activeBoxId || selectedIds.includes(b.id));
+  const isSelected = (boxId: string) => boxId === activeBoxId || selectedIds.includes(boxId);
+
+  // Replaces the selected boxes with one box covering all of them. It keeps the first box's id but not its
+  // identification, since the region has changed.
+  const handleMerge = () => {
+    if (selection.length < 2) return;
+    const merged: UserBox = { id: selection[0].id, boundingBox: unionBounds(selection.map(b => b.boundingBox)) };
+    onBoxesChange(boxes.flatMap(b => b.id === merged.id ? [merged] : isSelected(b.id) ? [] : [b]));
+    setActiveBoxId(merged.id);
+    setSelectedIds([]);
+    setEditorMessage(`Merged ${selection.length} boxes into one.`);
+  };
+
+  // Cuts the active box in two; the first half keeps its id, the second gets a new one. Both need identifying again.
+  const handleSplit = (direction: SplitDirection) => {
+    const box = boxes.find(b => b.id === activeBoxId);
+    if (!box) return;
+    const [first, second] = splitRegion(box, direction);
+    const halves: UserBox[] = [{ id: box.id, ...first }, { id: uuid(), ...second }];
+    onBoxesChange(boxes.flatMap(b => b.id === box.id ? halves : [b]));
+    setSelectedIds([]);
+    setEditorMessage(`Box split into ${direction === 'columns' ? 'left and right' : 'top and bottom'} halves.`);
+  };
+
+  const handleDeleteVertex = (boxId: string, index: number) => {
+    const box = boxes.find(b => b.id === boxId);
+    if (!box?.polygon || box.polygon.length <= MIN_POLYGON_POINTS) return;
+    onBoxesChange(boxes.map(b => b === box ? setRegionPolygon(b, box.polygon!.filter((_, i) => i !== index)) : b));
+    setEditorMessage('Point removed.');
+  };
+
+  useEffect(() => {
+    if (!pendingFocusId) return;
+    const el = pendingFocusId === 'container' ? containerRef.current : boxRefs.current.get(pendingFocusId);
+    el?.focus();
+    setPendingFocusId(null);
+  }, [pendingFocusId, boxes]);
+
+  const handleBoxKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, box: UserBox) => {
+    if (!isEditing) {
+      if (e.key === 'Enter' && onItemSelect) {
+        e.preventDefault();
+        onItemSelect(box.id);
+      }
+      return;
+    }
+    const index = boxes.findIndex(b => b.id === box.id);
+
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      const next = boxes[index + 1] ?? boxes[index - 1];
+      handleDelete(box.id);
+      setActiveBoxId(next?.id ?? null);
+      setPendingFocusId(next?.id ?? 'container');
+      return;
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setActiveBoxId(null);
+      setPendingFocusId('container');
+      return;
+    }
+
+    const dx = e.key === 'ArrowLeft' ? -KEYBOARD_STEP : e.key === 'ArrowRight' ? KEYBOARD_STEP : 0;
+    const dy = e.key === 'ArrowUp' ? -KEYBOARD_STEP : e.key === 'ArrowDown' ? KEYBOARD_STEP : 0;
+    if (dx === 0 && dy === 0) return;
+    e.preventDefault();
+
+    let { x, y, width, height } = box.boundingBox;
+    if (e.shiftKey) {
+      width = clamp(width + dx, MIN_BOX_SIZE, 1 - x);
+      height = clamp(height + dy, MIN_BOX_SIZE, 1 - y);
+    } else {
+      x = clamp(x + dx, 0, 1 - width);
+      y = clamp(y + dy, 0, 1 - height);
+    }
+    onBoxesChange(boxes.map(b => b.id === box.id ? setRegionBounds(b, { x, y, width, height }) : b));
+  };
+
+  const handleContainerKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys pressed on a box bubble up here; those are handled by handleBoxKeyDown.
+    if (e.target !== e.currentTarget) return;
+
+    if (e.key === '+' || e.key === '=') {
+      e.preventDefault();
+      zoomAroundCenter(ZOOM_STEP);
+      return;
+    }
+    if (e.key === '-') {
+      e.preventDefault();
+      zoomAroundCenter(1 / ZOOM_STEP);
+      return;
+    }
+    if (e.key === '0') {
+      e.preventDefault();
+      resetView();
+      return;
+    }
+    if (!isEditing) return;
+
+    if (draftPolygon.length > 0 && e.key === 'Escape') {
+      e.preventDefault();
+      cancelDraftPolygon();
+      return;
+    }
+    if (drawTool === 'polygon' && e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        finishDraftPolygon();
+      } else {
+        addDraftVertex(cursor);
+        setEditorMessage(`Point ${draftPolygon.length + 1} added.`);
+      }
+      return;
+    }
+
+    const dx = e.key === 'ArrowLeft' ? -CURSOR_STEP : e.key === 'ArrowRight' ? CURSOR_STEP : 0;
+    const dy = e.key === 'ArrowUp' ? -CURSOR_STEP : e.key === 'ArrowDown' ? CURSOR_STEP : 0;
+    if (dx !== 0 || dy !== 0) {
+      e.preventDefault();
+      const factor = e.shiftKey ? 5 : 1;
+      setCursor(current => ({ x: clamp(current.x + dx * factor, 0, 1), y: clamp(current.y + dy * factor, 0, 1) }));
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      const width = Math.min(NEW_BOX_SIZE, 1);
+      const height = Math.min(NEW_BOX_SIZE, 1);
+      const newBox: UserBox = {
+        id: uuid(),
+        boundingBox: {
+          x: clamp(cursor.x - width / 2, 0, 1 - width),
+          y: clamp(cursor.y - height / 2, 0, 1 - height),
+          width,
+          height,
+        },
+      };
+      onBoxesChange([...boxes, newBox]);
+      setActiveBoxId(newBox.id);
+      setPendingFocusId(newBox.id);
+      setEditorMessage(`Box added. Box ${boxes.length + 1} of ${boxes.length + 1}.`);
+    }
+  };
   
   const resizeHandles: (keyof BoundingBox | string)[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
 
+  // Polygon regions are drawn as SVG, so their outline colors mirror the border colors used for rectangles.
+  const polygonClassName = (item: UserBox) => {
+    if (isEditing) {
+      if (isSelected(item.id)) return 'stroke-indigo-400 fill-indigo-400/10';
+      return `${isChangedSinceIdentified(item) ? 'stroke-amber-400' : 'stroke-gray-400'} fill-transparent hover:stroke-indigo-500`;
+    }
+    if (highlightedBoxId === item.id) return 'stroke-yellow-300 fill-yellow-300/10';
+    if (item.notFood) return 'stroke-gray-500 fill-transparent opacity-60';
+    if (isChangedSinceIdentified(item)) return 'stroke-amber-400 fill-transparent';
+    return `${isLowConfidence(item) ? 'stroke-orange-400' : 'stroke-indigo-500'} fill-transparent`;
+  };
+
+  const toScreenPoints = (points: Point[]) =>
+    points.map(point => `${viewRect.offsetX + point.x * viewRect.width},${viewRect.offsetY + point.y * viewRect.height}`).join(' ');
+  const sketch = interaction.mode === 'lasso' ? interaction.points : draftPolygon;
+
   return (
-    <div 
-        ref={containerRef} 
-        className="relative w-full max-w-2xl mx-auto aspect-[4/3] flex items-center justify-center select-none"
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleInteractionEnd}
-        onMouseLeave={handleInteractionEnd}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleInteractionEnd}
-    >
-      <img
-        src={imageUrl}
-        alt="Food analysis"
-        className="block max-w-full max-h-full rounded-lg shadow-lg object-contain"
-        style={{ cursor: isEditing ? 'crosshair' : 'default' }}
-        draggable={false}
-      />
-      {isLoading && (
-        <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center rounded-lg backdrop-blur-sm z-30">
-          <div className="w-16 h-16 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
-          <p className="mt-4 text-white font-semibold text-lg">Analyzing your meal...</p>
+    <div className="w-full max-w-2xl mx-auto">
+      {isEditing && (
+        <div className="flex flex-wrap items-center gap-2 mb-2" role="toolbar" aria-label="Box editing">
+          <div className="flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Drawing tool">
+            {DRAW_TOOLS.map(({ tool, label, hint }) => (
+              <button
+                key={tool}
+                onClick={() => { setDrawTool(tool); setDraftPolygon([]); }}
+                aria-pressed={drawTool === tool}
+                title={hint}
+                className={`px-3 py-1.5 text-sm ${drawTool === tool ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setIsMultiSelect(on => !on)}
+            aria-pressed={isMultiSelect}
+            title="Tap boxes to add them to the selection (or hold Shift)"
+            className={`px-3 py-1.5 text-sm rounded-md ${isMultiSelect ? 'bg-indigo-600 text-white' : 'text-gray-200 bg-gray-700 hover:bg-gray-600'}`}
+          >
+            Select several
+          </button>
+          <button
+            onClick={handleMerge}
+            disabled={selection.length < 2}
+            className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Merge{selection.length >= 2 ? ` ${selection.length}` : ''}
+          </button>
+          <button
+            onClick={() => handleSplit('columns')}
+            disabled={!activeBoxId || selection.length > 1}
+            className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Split the selected box into left and right halves"
+          >
+            Split ⇹
+          </button>
+          <button
+            onClick={() => handleSplit('rows')}
+            disabled={!activeBoxId || selection.length > 1}
+            className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Split the selected box into top and bottom halves"
+          >
+            Split ⇳
+          </button>
+          {draftPolygon.length > 0 && (
+            <>
+              <button
+                onClick={finishDraftPolygon}
+                disabled={draftPolygon.length < MIN_POLYGON_POINTS}
+                className="px-3 py-1.5 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Finish ({draftPolygon.length} points)
+              </button>
+              <button onClick={cancelDraftPolygon} className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+                Cancel
+              </button>
+            </>
+          )}
+          {history && (
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={history.onUndo}
+                disabled={!history.canUndo}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+              >
+                <UndoIcon className="w-4 h-4" />
+                Undo
+              </button>
+              <button
+                onClick={history.onRedo}
+                disabled={!history.canRedo}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Redo"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <RedoIcon className="w-4 h-4" />
+                Redo
+              </button>
+            </div>
+          )}
         </div>
       )}
-      {boxes.map((item) => (
+      <p id={instructionsId} className="sr-only">
+        {isEditing
+          ? 'Use Tab to move between boxes. Arrow keys move the selected box, Shift with arrow keys resizes it, and Delete removes it. Press Escape to return to the image, where arrow keys move a cursor and Enter adds a new box at the cursor. With the Polygon tool, Enter adds a point at the cursor, Shift+Enter closes the outline and Escape cancels it. Plus and minus zoom, and 0 resets the zoom.'
+          : 'Use Tab to move between the identified food items. Plus and minus zoom, and 0 resets the zoom.'}
+      </p>
+      <div className="sr-only" role="status" aria-live="polite">{editorMessage}</div>
+      <div 
+          ref={containerRef} 
+          className={`relative w-full aspect-[4/3] select-none rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400 ${isZoomed ? 'overflow-hidden' : ''}`}
+          role="group"
+          aria-label={isEditing ? `Meal photo editor, ${boxes.length} ${boxes.length === 1 ? 'box' : 'boxes'}` : `Meal photo, ${boxes.length} identified ${boxes.length === 1 ? 'item' : 'items'}`}
+          aria-describedby={instructionsId}
+          aria-busy={isLoading}
+          tabIndex={0}
+          onKeyDown={handleContainerKeyDown}
+          onFocus={(e) => { if (e.target === e.currentTarget) setIsCursorVisible(true); }}
+          onBlur={(e) => { if (e.target === e.currentTarget) setIsCursorVisible(false); }}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleInteractionEnd}
+          onMouseLeave={handleInteractionEnd}
+          onTouchStart={handleTouchStart}
+          onTouchMove={handleTouchMove}
+          onTouchEnd={handleInteractionEnd}
+          style={{ touchAction: isEditing || isZoomed ? 'none' : 'pan-x pan-y' }}
+      >
+        <img
+          src={imageUrl}
+          alt="Food analysis"
+          className="absolute block max-w-none rounded-lg shadow-lg"
+          style={{
+            left: `${viewRect.offsetX}px`,
+            top: `${viewRect.offsetY}px`,
+            width: `${viewRect.width}px`,
+            height: `${viewRect.height}px`,
+            cursor: interaction.mode === 'panning' ? 'grabbing' : isSpaceHeld || (!isEditing && isZoomed) ? 'grab' : isEditing ? 'crosshair' : 'default',
+          }}
+          draggable={false}
+        />
         <div
-          key={item.id}
-          className={`absolute border-2 rounded-md transition-colors duration-200
-            ${activeBoxId === item.id && isEditing ? 'border-indigo-400 z-20' : ''}
-            ${activeBoxId !== item.id && isEditing ? 'border-gray-500 hover:border-indigo-500 z-10' : ''}
-            ${!isEditing ? 'border-indigo-500' : ''}
-          `}
-          style={{ ...toScreenStyle(item.boundingBox), cursor: isEditing ? 'move' : 'default', touchAction: 'none' }}
-          data-box-id={item.id}
+          className="absolute top-2 left-2 z-40 flex items-center gap-1 rounded-md bg-black/50 p-1 backdrop-blur-sm"
+          onMouseDown={(e) => e.stopPropagation()}
+          onTouchStart={(e) => e.stopPropagation()}
         >
-            {isEditing && activeBoxId === item.id && (
-                <>
-                    {resizeHandles.map(handle => (
-                        <div
-                            key={handle}
-                            className={`absolute w-3 h-3 bg-indigo-400 rounded-full -m-1.5 border-2 border-gray-900 z-30
-                            ${handle.includes('top') ? 'top-0' : 'bottom-0'}
-                            ${handle.includes('left') ? 'left-0' : 'right-0'}
-                            `}
-                            style={{ 
-                                cursor: `${handle.split('-')[0] === 'top' || handle.split('-')[0] === 'bottom' ? 'ns' : 'ew'}-resize`,
-                                touchAction: 'none'
-                             }}
-                            data-handle={handle}
-                            data-box-id={item.id}
-                        />
-                    ))}
-                    <button 
-                      onClick={() => handleDelete(item.id)}
-                      onMouseDown={(e) => e.stopPropagation()}
-                      onTouchStart={(e) => { // Use onTouchStart for better reliability on mobile
-                        e.stopPropagation();
-                        e.preventDefault();
-                        handleDelete(item.id);
-                      }}
-                      className="absolute -top-3 -right-3 w-6 h-6 bg-red-600 text-white rounded-full flex items-center justify-center text-sm font-bold border-2 border-gray-900 hover:bg-red-500 z-30"
-                      aria-label="Delete box"
-                    >
-                      &times;
-                    </button>
-                </>
-            )}
-
-            {!isEditing && item.name && item.calories && (
-                <div 
-                  ref={el => {
-                    if (el) labelRefs.current.set(item.id, el);
-                    else labelRefs.current.delete(item.id);
-                  }}
-                  className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-1.5 text-xs font-bold text-white bg-indigo-600 rounded-md whitespace-nowrap transition-transform duration-200"
-                  style={labelStyles[item.id] || {}}
-                >
-                  <span className="capitalize">{item.name}</span> - {item.calories} kcal
-                  <div className="absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-x-4 border-x-transparent border-t-4 border-t-indigo-600"></div>
-                </div>
-            )}
+          <button
+            onClick={() => zoomAroundCenter(1 / ZOOM_STEP)}
+            disabled={!isZoomed}
+            className="w-7 h-7 rounded text-white text-lg leading-none hover:bg-white/20 disabled:opacity-40"
+            aria-label="Zoom out"
+          >
+            &minus;
+          </button>
+          <button
+            onClick={resetView}
+            className="min-w-[3rem] h-7 px-1 rounded text-white text-xs hover:bg-white/20"
+            aria-label="Reset zoom"
+          >
+            {Math.round(view.scale * 100)}%
+          </button>
+          <button
+            onClick={() => zoomAroundCenter(ZOOM_STEP)}
+            disabled={view.scale >= MAX_ZOOM}
+            className="w-7 h-7 rounded text-white text-lg leading-none hover:bg-white/20 disabled:opacity-40"
+            aria-label="Zoom in"
+          >
+            +
+          </button>
         </div>
-      ))}
+        {isZoomed && (
+          <div
+            className="absolute bottom-2 right-2 z-40 w-28 sm:w-36 rounded-md border border-white/40 shadow-lg overflow-hidden bg-black cursor-pointer"
+            style={{ aspectRatio: imageDimensions ? `${imageDimensions.width} / ${imageDimensions.height}` : undefined }}
+            onMouseDown={(e) => { e.stopPropagation(); handleMinimapPointer(e.clientX, e.clientY, e.currentTarget); }}
+            onTouchStart={(e) => { e.stopPropagation(); handleMinimapPointer(e.touches[0].clientX, e.touches[0].clientY, e.currentTarget); }}
+            aria-hidden="true"
+          >
+            <img src={imageUrl} alt="" className="w-full h-full object-fill opacity-80" draggable={false} />
+            <div
+              className="absolute border-2 border-yellow-300 bg-yellow-300/10"
+              style={{
+                left: `${visibleRegion.left * 100}%`,
+                top: `${visibleRegion.top * 100}%`,
+                width: `${(visibleRegion.right - visibleRegion.left) * 100}%`,
+                height: `${(visibleRegion.bottom - visibleRegion.top) * 100}%`,
+              }}
+            />
+          </div>
+        )}
+        {isLoading && (
+          <div className="absolute inset-0 bg-black/70 flex flex-col items-center justify-center rounded-lg backdrop-blur-sm z-30">
+            <div className="w-16 h-16 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+            <p className="mt-4 text-white font-semibold text-lg">Analyzing your meal...</p>
+          </div>
+        )}
+        {isEditing && isCursorVisible && (
+          <div
+            className="absolute w-6 h-6 -ml-3 -mt-3 pointer-events-none z-20"
+            style={{
+              left: `${viewRect.offsetX + cursor.x * viewRect.width}px`,
+              top: `${viewRect.offsetY + cursor.y * viewRect.height}px`,
+            }}
+            aria-hidden="true"
+          >
+            <div className="absolute left-1/2 top-0 bottom-0 w-0.5 -ml-px bg-yellow-300" />
+            <div className="absolute top-1/2 left-0 right-0 h-0.5 -mt-px bg-yellow-300" />
+          </div>
+        )}
+        {sketch.length > 0 && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none z-20 overflow-visible" aria-hidden="true">
+            <polyline
+              points={toScreenPoints(sketch)}
+              className="stroke-yellow-300 fill-yellow-300/10"
+              strokeWidth={2}
+              strokeDasharray={interaction.mode === 'lasso' ? undefined : '6 4'}
+            />
+            {interaction.mode !== 'lasso' && sketch.map((point, i) => (
+              <circle
+                key={i}
+                cx={viewRect.offsetX + point.x * viewRect.width}
+                cy={viewRect.offsetY + point.y * viewRect.height}
+                r={i === 0 ? CLOSE_DISTANCE_PX / 2 : 4}
+                className={i === 0 ? 'fill-yellow-300/40 stroke-yellow-300' : 'fill-yellow-300'}
+              />
+            ))}
+          </svg>
+        )}
+        {boxes.map((item, index) => (
+          <div
+            key={item.id}
+            ref={el => {
+              if (el) boxRefs.current.set(item.id, el);
+              else boxRefs.current.delete(item.id);
+            }}
+            role="group"
+            aria-roledescription="food box"
+            aria-label={describeBox(item, index, boxes.length)}
+            aria-current={isEditing && activeBoxId === item.id ? true : undefined}
+            tabIndex={0}
+            onFocus={(e) => { if (isEditing && e.target === e.currentTarget) setActiveBoxId(item.id); }}
+            onKeyDown={(e) => { if (e.target === e.currentTarget) handleBoxKeyDown(e, item); }}
+            className={`absolute ${item.polygon ? 'pointer-events-none' : 'border-2 rounded-md'} transition-colors duration-200
+              ${isSelected(item.id) && isEditing ? 'border-indigo-400 z-20' : ''}
+              ${!isSelected(item.id) && isEditing ? `${isChangedSinceIdentified(item) ? 'border-amber-400 border-dashed' : 'border-gray-500'} hover:border-indigo-500 z-10` : ''}
+              ${!isEditing && !item.notFood && highlightedBoxId !== item.id ? (isChangedSinceIdentified(item) ? 'border-amber-400 border-dashed' : isLowConfidence(item) ? 'border-orange-400 border-dotted' : 'border-indigo-500') : ''}
+              ${!isEditing && highlightedBoxId === item.id ? 'border-yellow-300 ring-2 ring-yellow-300/50 z-20' : ''}
+              ${!isEditing && onBoxClick ? 'cursor-pointer' : ''}
+              ${!isEditing && item.notFood ? 'border-gray-500 border-dashed opacity-60' : ''}
+              focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-300
+            `}
+            style={{ ...toScreenStyle(item.boundingBox), cursor: isEditing && !item.polygon ? 'move' : undefined, touchAction: 'none' }}
+            onClick={!isEditing && onBoxClick ? () => onBoxClick(item.id) : undefined}
+            data-box-id={item.id}
+          >
+              {item.polygon && (
+                  <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox="0 0 1 1" preserveAspectRatio="none" aria-hidden="true">
+                    <polygon
+                      points={toLocalPoints(item.polygon, item.boundingBox).map(point => `${point.x},${point.y}`).join(' ')}
+                      className={`pointer-events-auto transition-colors duration-200 ${polygonClassName(item)} ${!isEditing && onBoxClick ? 'cursor-pointer' : ''}`}
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                      strokeLinejoin="round"
+                      style={{ cursor: isEditing ? 'move' : undefined }}
+                      data-box-id={item.id}
+                    />
+                  </svg>
+              )}
+              {isEditing && activeBoxId === item.id && (
+                  <>
+                      {item.polygon && toLocalPoints(item.polygon, item.boundingBox).map((point, i) => (
+                          <div
+                              key={i}
+                              className="absolute w-3 h-3 bg-indigo-400 rounded-full -m-1.5 border-2 border-gray-900 z-30 pointer-events-auto"
+                              style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%`, cursor: 'grab', touchAction: 'none' }}
+                              onDoubleClick={() => handleDeleteVertex(item.id, i)}
+                              title="Drag to move, double-click to remove"
+                              data-vertex={i}
+                              data-box-id={item.id}
+                              aria-hidden="true"
+                          />
+                      ))}
+                      {!item.polygon && resizeHandles.map(handle => (
+                          <div
+                              key={handle}
+                              className={`absolute w-3 h-3 bg-indigo-400 rounded-full -m-1.5 border-2 border-gray-900 z-30
+                              ${handle.includes('top') ? 'top-0' : 'bottom-0'}
+                              ${handle.includes('left') ? 'left-0' : 'right-0'}
+                              `}
+                              style={{ 
+                                  cursor: `${handle.split('-')[0] === 'top' || handle.split('-')[0] === 'bottom' ? 'ns' : 'ew'}-resize`,
+                                  touchAction: 'none'
+                               }}
+                              data-handle={handle}
+                              data-box-id={item.id}
+                              aria-hidden="true"
+                          />
+                      ))}
+                      <button 
+                        onClick={() => handleDelete(item.id)}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onTouchStart={(e) => { // Use onTouchStart for better reliability on mobile
+                          e.stopPropagation();
+                          e.preventDefault();
+                          handleDelete(item.id);
+                        }}
+                        className="absolute -top-3 -right-3 w-6 h-6 pointer-events-auto bg-red-600 text-white rounded-full flex items-center justify-center text-sm font-bold border-2 border-gray-900 hover:bg-red-500 z-30"
+                        aria-label={`Delete box ${index + 1}${item.name ? `, ${item.name}` : ''}`}
+                      >
+                        &times;
+                      </button>
+                  </>
+              )}
+
+              {!isEditing && !item.notFood && item.name && item.calories !== undefined && (
+                  <div 
+                    ref={el => {
+                      if (el) labelRefs.current.set(item.id, el);
+                      else labelRefs.current.delete(item.id);
+                    }}
+                    className={`absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-1.5 text-xs font-bold rounded-md whitespace-nowrap pointer-events-auto transition-transform duration-200
+                      ${highlightedBoxId === item.id ? 'bg-yellow-300 text-gray-900' : isLowConfidence(item) ? 'bg-orange-600 text-white' : 'bg-indigo-600 text-white'}
+                      ${onItemSelect ? 'cursor-pointer hover:brightness-110' : ''}`}
+                    onClick={onItemSelect ? (e) => { e.stopPropagation(); onItemSelect(item.id); } : undefined}
+                    style={labelStyles[item.id] || {}}
+                    title={item.macros ? MACRO_KEYS.map(key => `${MACRO_LABELS[key]}: ${formatMacro(key, item.macros![key])}`).join('\n') : undefined}
+                  >
+                    <span className="capitalize">{item.name}</span> - {item.calories} kcal
+                    {item.userProvided && <span className="ml-1 text-amber-300" title="Corrected by you">✎</span>}
+                    {isLowConfidence(item) && <span className="ml-1" title={`Unsure (${Math.round(item.confidence! * 100)}%), check the alternatives`}>?</span>}
+                    {item.macros && (
+                      <span className="block text-[10px] font-medium text-indigo-100">
+                        P {formatMacro('protein', item.macros.protein)} · C {formatMacro('carbohydrate', item.macros.carbohydrate)} · F {formatMacro('fat', item.macros.fat)}
+                      </span>
+                    )}
+                    <div className={`absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-x-4 border-x-transparent border-t-4 ${highlightedBoxId === item.id ? 'border-t-yellow-300' : isLowConfidence(item) ? 'border-t-orange-600' : 'border-t-indigo-600'}`}></div>
+                  </div>
+              )}
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
@@ -1,21 +1,50 @@
 
 import React, { useRef, useCallback, useState } from 'react';
 import { UploadIcon, CameraIcon } from './icons/Icons';
+import type { CameraMode } from './CameraView';
 
 interface ImageUploaderProps {
   onImageSelect: (file: File) => void;
+  onImagesSelect: (files: File[]) => void; // several photos at once, analyzed as a batch
+  onBarcodeImageSelect: (file: File) => void;
+  onLabelImageSelect: (file: File) => void;
   isLoading: boolean;
-  onOpenCamera: () => void;
+  onOpenCamera: (mode: CameraMode) => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, isLoading, onOpenCamera }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, onImagesSelect, onBarcodeImageSelect, onLabelImageSelect, isLoading, onOpenCamera }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const labelInputRef = useRef<HTMLInputElement>(null);
   const [isDragging, setIsDragging] = useState(false);
 
+  const selectImages = useCallback((files: File[]) => {
+    if (files.length > 1) {
+      onImagesSelect(files);
+    } else if (files.length === 1) {
+      onImageSelect(files[0]);
+    }
+  }, [onImageSelect, onImagesSelect]);
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    selectImages(files);
+  };
+
+  const handleBarcodeFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (file) {
-      onImageSelect(file);
+      onBarcodeImageSelect(file);
+    }
+  };
+
+  const handleLabelFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      onLabelImageSelect(file);
     }
   };
 
@@ -39,16 +68,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, isL
     setIsDragging(false);
     if (isLoading) return;
 
-    const file = e.dataTransfer.files?.[0];
-    if (file && file.type.startsWith('image/')) {
-        onImageSelect(file);
-    }
-  }, [isLoading, onImageSelect]);
+    selectImages(Array.from<File>(e.dataTransfer.files).filter(file => file.type.startsWith('image/')));
+  }, [isLoading, selectImages]);
 
-  const handleCameraClick = (e: React.MouseEvent) => {
+  const handleCameraClick = (e: React.MouseEvent, mode: CameraMode) => {
     e.stopPropagation();
     if (!isLoading) {
-      onOpenCamera();
+      onOpenCamera(mode);
     }
   };
 
@@ -71,6 +97,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, isL
           onChange={handleFileChange}
           className="hidden"
           accept="image/*"
+          multiple
           disabled={isLoading}
         />
         <div className="text-center">
@@ -79,6 +106,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, isL
             <span className="text-indigo-400">Upload a file</span> or drag and drop
           </p>
           <p className="text-sm text-gray-500">PNG, JPG, GIF up to 10MB</p>
+          <p className="text-sm text-gray-500">Select several photos to analyze a day's meals in one go</p>
         </div>
         {isLoading && (
           <div className="absolute inset-0 bg-gray-800/80 flex items-center justify-center rounded-lg">
@@ -93,15 +121,60 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelect, isL
           <div className="flex-grow border-t border-gray-600"></div>
       </div>
 
-      <button
-          type="button"
-          onClick={handleCameraClick}
-          disabled={isLoading}
-          className="inline-flex items-center gap-2 w-full max-w-sm justify-center px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-      >
-          <CameraIcon className="w-5 h-5"/>
-          Use Camera
-      </button>
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-3 w-full">
+        <button
+            type="button"
+            onClick={(e) => handleCameraClick(e, 'photo')}
+            disabled={isLoading}
+            className="inline-flex items-center gap-2 w-full max-w-sm justify-center px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+            <CameraIcon className="w-5 h-5"/>
+            Use Camera
+        </button>
+        <button
+            type="button"
+            onClick={(e) => handleCameraClick(e, 'barcode')}
+            disabled={isLoading}
+            className="inline-flex items-center gap-2 w-full max-w-sm justify-center px-6 py-3 border border-gray-600 text-base font-medium rounded-md shadow-sm text-white bg-gray-700 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+            Scan Barcode
+        </button>
+      </div>
+
+      <input
+        type="file"
+        ref={barcodeInputRef}
+        onChange={handleBarcodeFileChange}
+        className="hidden"
+        accept="image/*"
+        disabled={isLoading}
+      />
+      <input
+        type="file"
+        ref={labelInputRef}
+        onChange={handleLabelFileChange}
+        className="hidden"
+        accept="image/*"
+        disabled={isLoading}
+      />
+      <div className="mt-4 flex flex-col items-center gap-1">
+        <button
+            type="button"
+            onClick={() => barcodeInputRef.current?.click()}
+            disabled={isLoading}
+            className="text-sm text-indigo-400 hover:underline disabled:opacity-50"
+        >
+            Or read a barcode from a photo of the package
+        </button>
+        <button
+            type="button"
+            onClick={() => labelInputRef.current?.click()}
+            disabled={isLoading}
+            className="text-sm text-indigo-400 hover:underline disabled:opacity-50"
+        >
+            Or read a Nutrition Facts label from a photo
+        </button>
+      </div>
     </>
   );
 };
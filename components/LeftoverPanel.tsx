@@ -0,0 +1,126 @@
+import React, { useRef, useState } from 'react';
+import type { Leftover, MealItem, UserBox } from '../types';
+import { countsTowardTotals, getEatenCalories } from '../utils/nutrition';
+
+interface LeftoverPanelProps {
+  afterImageUrl: string | null;
+  isAnalyzing: boolean;
+  boxes: UserBox[];
+  extraItems: MealItem[];
+  onBoxesChange: (boxes: UserBox[]) => void;
+  onExtraItemsChange: (items: MealItem[]) => void;
+  onAfterPhotoSelect: (file: File) => void;
+  onTakeAfterPhoto: () => void;
+  onClearAfterPhoto: () => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50';
+
+export const LeftoverPanel: React.FC<LeftoverPanelProps> = ({
+  afterImageUrl, isAnalyzing, boxes, extraItems, onBoxesChange, onExtraItemsChange, onAfterPhotoSelect, onTakeAfterPhoto, onClearAfterPhoto,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isEditingByHand, setIsEditingByHand] = useState(false);
+  const boxIds = new Set(boxes.map(box => box.id));
+  const items = [...boxes, ...extraItems].filter(countsTowardTotals);
+  const showItems = !!afterImageUrl || isEditingByHand || items.some(item => item.leftover);
+
+  const updateLeftover = (id: string, leftover: Leftover | undefined) => {
+    if (boxIds.has(id)) {
+      onBoxesChange(boxes.map(box => box.id === id ? { ...box, leftover } : box));
+    } else {
+      onExtraItemsChange(extraItems.map(item => item.id === id ? { ...item, leftover } : item));
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onAfterPhotoSelect(file);
+  };
+
+  return (
+    <section className="w-full max-w-2xl mx-auto mt-6 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Leftovers">
+      <div className="flex items-start gap-4">
+        {afterImageUrl && <img src={afterImageUrl} alt="Plate after eating" className="w-20 h-20 object-cover rounded-md flex-shrink-0" />}
+        <div className="flex-grow">
+          <h3 className="text-sm uppercase tracking-wide text-gray-500">Leftovers</h3>
+          <p className="mt-1 text-sm text-gray-400">
+            {isAnalyzing
+              ? 'Comparing the after photo with your meal...'
+              : afterImageUrl
+                ? 'Totals count only what was eaten. Adjust any item the comparison got wrong.'
+                : "Didn't finish? Add a photo of the plate after eating to count only what you ate."}
+          </p>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept="image/*" />
+            <button onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing} className={buttonClassName}>
+              {afterImageUrl ? 'Replace After Photo' : 'Upload After Photo'}
+            </button>
+            <button onClick={onTakeAfterPhoto} disabled={isAnalyzing} className={buttonClassName}>
+              Take After Photo
+            </button>
+            {afterImageUrl && (
+              <button onClick={onClearAfterPhoto} disabled={isAnalyzing} className={buttonClassName}>
+                Remove
+              </button>
+            )}
+            {!showItems && items.length > 0 && (
+              <button onClick={() => setIsEditingByHand(true)} className="px-1 text-sm text-indigo-400 hover:underline">
+                Set leftovers by hand
+              </button>
+            )}
+          </div>
+        </div>
+        {isAnalyzing && <div className="w-8 h-8 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin flex-shrink-0"></div>}
+      </div>
+
+      {showItems && items.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-800">
+          {items.map(item => {
+            const leftover = item.leftover;
+            const percent = Math.round((leftover?.fraction ?? 0) * 100);
+            // The estimate can be restored only after the user overrode it
+            const estimate = leftover?.userProvided ? leftover.estimatedFraction : undefined;
+            return (
+              <li key={item.id} className="py-2">
+                <div className="flex items-baseline justify-between gap-4">
+                  <span className="text-gray-100 capitalize">{item.name}</span>
+                  <span className="text-sm text-gray-400 whitespace-nowrap">
+                    Ate <span className="font-semibold text-indigo-300">{getEatenCalories(item)}</span> of {item.calories} kcal
+                  </span>
+                </div>
+                <div className="mt-1 flex items-center gap-3">
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    step={5}
+                    value={percent}
+                    disabled={isAnalyzing}
+                    onChange={(e) => updateLeftover(item.id, { ...leftover, fraction: Number(e.target.value) / 100, userProvided: true })}
+                    className="flex-grow accent-indigo-500"
+                    aria-label={`Share of ${item.name} left over`}
+                    aria-valuetext={`${percent}% left`}
+                  />
+                  <span className="w-16 text-right text-sm text-gray-300">{percent}% left</span>
+                  {leftover?.userProvided && (
+                    <span className="px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-amber-500/20 text-amber-300">Edited</span>
+                  )}
+                  {estimate !== undefined && (
+                    <button
+                      onClick={() => updateLeftover(item.id, { ...leftover, fraction: estimate, userProvided: false })}
+                      className="text-xs text-indigo-400 hover:underline"
+                    >
+                      Use estimate
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { MealItem } from '../types';
+import { getMealTotals, getMacroEnergyRatio, formatMacro, MACRO_KEYS, MACRO_LABELS } from '../utils/nutrition';
+
+interface MacroSummaryProps {
+  items: MealItem[];
+}
+
+const RATIO_SEGMENTS = [
+  { key: 'protein', label: 'Protein', color: 'bg-sky-500' },
+  { key: 'carbohydrate', label: 'Carbs', color: 'bg-amber-500' },
+  { key: 'fat', label: 'Fat', color: 'bg-rose-500' },
+] as const;
+
+export const MacroSummary: React.FC<MacroSummaryProps> = ({ items }) => {
+  const totals = getMealTotals(items);
+  if (totals.itemCount === 0) return null;
+
+  const ratio = getMacroEnergyRatio(totals.macros);
+  const hasRatio = ratio.protein + ratio.carbohydrate + ratio.fat > 0;
+
+  return (
+    <section className="w-full max-w-2xl mx-auto mt-6 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Meal nutrition summary">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-lg font-semibold text-white">Meal Total</h2>
+        <p className="text-2xl font-bold text-indigo-300">{Math.round(totals.calories)} kcal</p>
+      </div>
+
+      {hasRatio && (
+        <>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-700" role="img"
+            aria-label={RATIO_SEGMENTS.map(s => `${s.label} ${Math.round(ratio[s.key] * 100)}%`).join(', ')}>
+            {RATIO_SEGMENTS.map(segment => (
+              <div key={segment.key} className={segment.color} style={{ width: `${ratio[segment.key] * 100}%` }} />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-400">
+            {RATIO_SEGMENTS.map(segment => (
+              <span key={segment.key} className="inline-flex items-center gap-1.5">
+                <span className={`w-2 h-2 rounded-full ${segment.color}`}></span>
+                {segment.label} {Math.round(ratio[segment.key] * 100)}%
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      <dl className="grid grid-cols-3 sm:grid-cols-6 gap-3 mt-4">
+        {MACRO_KEYS.map(key => (
+          <div key={key} className="text-center">
+            <dt className="text-xs uppercase tracking-wide text-gray-500">{MACRO_LABELS[key]}</dt>
+            <dd className="text-sm font-semibold text-gray-200">{formatMacro(key, totals.macros[key])}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import type { MealEntry } from '../types';
+import { listMeals, deleteMeal } from '../services/mealLogService';
+import { formatMealTime } from '../utils/date';
+
+interface MealHistoryProps {
+  onOpenMeal: (meal: MealEntry) => void;
+  onBack: () => void;
+}
+
+export const MealHistory: React.FC<MealHistoryProps> = ({ onOpenMeal, onBack }) => {
+  const [meals, setMeals] = useState<MealEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    listMeals()
+      .then(result => { if (isMounted) setMeals(result); })
+      .catch(err => {
+        console.error(err);
+        if (isMounted) setError('Could not load your meal log.');
+      });
+    return () => { isMounted = false; };
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMeal(id);
+      setMeals(current => current?.filter(meal => meal.id !== id) ?? null);
+    } catch (err) {
+      console.error(err);
+      setError('Could not delete the meal.');
+    } finally {
+      setPendingDeleteId(null);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-semibold text-white">Meal History</h2>
+        <button
+          onClick={onBack}
+          className="px-4 py-2 text-sm border border-gray-600 rounded-md text-white bg-gray-700 hover:bg-gray-600"
+        >
+          Back
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 mb-4">{error}</p>}
+
+      {!meals && !error && (
+        <div className="flex justify-center py-8">
+          <div className="w-10 h-10 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      )}
+
+      {meals && meals.length === 0 && (
+        <p className="text-center text-gray-400 py-8">No meals logged yet. Analyze a photo and save it to start your log.</p>
+      )}
+
+      {meals && meals.length > 0 && (
+        <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg bg-gray-900/60">
+          {meals.map(meal => (
+            <li key={meal.id} className="flex items-center gap-4 p-3">
+              {meal.thumbnail ? (
+                <img src={meal.thumbnail} alt="" className="w-16 h-16 object-cover rounded-md flex-shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded-md flex-shrink-0 bg-gray-800 flex items-center justify-center text-xs text-gray-500" aria-hidden="true">No photo</div>
+              )}
+              <div className="flex-grow min-w-0">
+                <p className="font-semibold text-white capitalize">{meal.mealType}</p>
+                <p className="text-sm text-gray-400">{formatMealTime(meal.timestamp)}</p>
+                <p className="text-sm text-gray-500 truncate">
+                  {[...meal.boxes, ...(meal.extraItems ?? [])].filter(item => !item.notFood).map(item => item.name).filter(Boolean).join(', ') || 'No identified items'}
+                </p>
+              </div>
+              <span className="text-indigo-300 font-semibold whitespace-nowrap">{Math.round(meal.totals.calories)} kcal</span>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <button
+                  onClick={() => onOpenMeal(meal)}
+                  className="px-3 py-1.5 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                >
+                  Open
+                </button>
+                {pendingDeleteId === meal.id ? (
+                  <button
+                    onClick={() => handleDelete(meal.id)}
+                    className="px-3 py-1.5 text-sm rounded-md text-white bg-red-600 hover:bg-red-500"
+                  >
+                    Confirm
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setPendingDeleteId(meal.id)}
+                    className="px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { FoodReference, MealItem, UserBox } from '../types';
+import { applyAlternative, applyCorrection, applyFoodMatch, clearFoodMatch, isLowConfidence, scaleToPortion } from '../utils/nutrition';
+import { FoodMatchPicker } from './FoodMatchPicker';
+
+interface MealItemListProps {
+  boxes: UserBox[];
+  extraItems: MealItem[];
+  onBoxesChange: (boxes: UserBox[]) => void;
+  onExtraItemsChange: (items: MealItem[]) => void;
+  editingItemId: string | null;
+  onEditingItemIdChange: (id: string | null) => void;
+}
+
+interface MealItemRowProps {
+  item: MealItem;
+  isEditing: boolean;
+  onStartEdit: () => void;
+  onCancelEdit: () => void;
+  onSave: (name: string, calories: number) => void;
+  onPortionChange: (amount: number) => void;
+  onFoodSelect: (food: FoodReference) => void;
+  onClearFoodMatch: () => void;
+  onAlternativeSelect: (index: number) => void;
+  onToggleNotFood?: () => void;
+  onRemove?: () => void;
+}
+
+const uuid = () => crypto.randomUUID();
+
+const sliderMax = (item: MealItem) => {
+  const reference = item.estimatedPortion?.amount ?? item.portion?.amount ?? 100;
+  return Math.max(50, Math.ceil(reference * 3 / 10) * 10);
+};
+
+const parseCalories = (value: string): number | null => {
+  const calories = Math.round(Number(value));
+  return value.trim() !== '' && Number.isFinite(calories) && calories >= 0 ? calories : null;
+};
+
+// Portions must be positive; an empty or zero field is left alone while the user is still typing.
+const parsePortion = (value: string): number | null => {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount > 0 ? amount : null;
+};
+
+const inputClassName = 'px-2 py-1 text-sm bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const actionClassName = 'px-2 py-1 text-xs rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600';
+
+// One-tap swaps to the other foods the model considered for the item
+const AlternativeChoices: React.FC<{ item: MealItem; onSelect: (index: number) => void }> = ({ item, onSelect }) => {
+  if (!item.alternatives || item.alternatives.length === 0) return null;
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs" role="group" aria-label={`Alternatives to ${item.name}`}>
+      <span className="text-gray-500">Or:</span>
+      {item.alternatives.map((alternative, index) => (
+        <button
+          key={alternative.name}
+          type="button"
+          onClick={() => onSelect(index)}
+          className="px-2 py-1 rounded-full border border-gray-600 text-gray-200 hover:border-indigo-400 hover:text-white"
+          aria-label={`Change to ${alternative.name}, ${alternative.calories} kcal`}
+        >
+          <span className="capitalize">{alternative.name}</span> · {alternative.calories} kcal
+          {alternative.confidence !== undefined && <span className="text-gray-500"> · {Math.round(alternative.confidence * 100)}%</span>}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const MealItemRow: React.FC<MealItemRowProps> = ({ item, isEditing, onStartEdit, onCancelEdit, onSave, onPortionChange, onFoodSelect, onClearFoodMatch, onAlternativeSelect, onToggleNotFood, onRemove }) => {
+  const rowRef = useRef<HTMLLIElement>(null);
+  const [isMatching, setIsMatching] = useState(false);
+  const [name, setName] = useState(item.name ?? '');
+  const [calories, setCalories] = useState(item.calories !== undefined ? String(item.calories) : '');
+  // What is typed in the portion field, until it loses focus; null shows the current portion.
+  const [portionInput, setPortionInput] = useState<string | null>(null);
+
+  // Only reset the fields when editing starts, not on every change to the item.
+  useEffect(() => {
+    if (!isEditing) return;
+    setName(item.name ?? '');
+    setCalories(item.calories !== undefined ? String(item.calories) : '');
+    rowRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [isEditing]);
+
+  const parsedCalories = parseCalories(calories);
+  const canSave = name.trim() !== '' && parsedCalories !== null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (canSave) onSave(name.trim(), parsedCalories!);
+  };
+
+  if (isEditing) {
+    return (
+      <li ref={rowRef} className="p-4 bg-gray-800/60">
+        <form onSubmit={handleSubmit} onKeyDown={(e) => { if (e.key === 'Escape') onCancelEdit(); }} className="flex flex-wrap items-center gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`${inputClassName} flex-grow min-w-[8rem]`}
+            aria-label="Item name"
+            autoFocus
+          />
+          <input
+            type="number"
+            min={0}
+            value={calories}
+            onChange={(e) => setCalories(e.target.value)}
+            className={`${inputClassName} w-24 text-right`}
+            aria-label="Calories"
+          />
+          <span className="text-sm text-gray-400">kcal</span>
+          <button type="submit" disabled={!canSave} className="px-3 py-1 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+            Save
+          </button>
+          <button type="button" onClick={onCancelEdit} className="px-3 py-1 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+            Cancel
+          </button>
+        </form>
+        <AlternativeChoices item={item} onSelect={(index) => { onAlternativeSelect(index); onCancelEdit(); }} />
+      </li>
+    );
+  }
+
+  return (
+    <li ref={rowRef} className={`p-4 ${item.notFood ? 'opacity-60' : ''}`}>
+      <div className="flex items-baseline justify-between gap-4">
+        <button
+          onClick={onStartEdit}
+          className={`text-left font-semibold capitalize hover:underline ${item.notFood ? 'text-gray-500 line-through' : 'text-white'}`}
+          aria-label={`Edit ${item.name ?? 'unidentified item'}`}
+        >
+          {item.name ?? 'Unidentified'}
+        </button>
+        <span className="text-indigo-300 font-semibold whitespace-nowrap">
+          {item.notFood ? 'Not food' : item.calories !== undefined ? `${item.calories} kcal` : '–'}
+        </span>
+      </div>
+      <div className="mt-1 flex flex-wrap items-center gap-2">
+        {item.userProvided && (
+          <span className="px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-amber-500/20 text-amber-300">Edited</span>
+        )}
+        {isLowConfidence(item) && (
+          <span className="px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-orange-500/20 text-orange-300" title={`Model confidence ${Math.round(item.confidence! * 100)}%`}>
+            Unsure
+          </span>
+        )}
+        <button onClick={onStartEdit} className={actionClassName}>Edit</button>
+        {onToggleNotFood && (
+          <button onClick={onToggleNotFood} className={actionClassName}>
+            {item.notFood ? 'Mark as food' : 'Not food'}
+          </button>
+        )}
+        {onRemove && (
+          <button onClick={onRemove} className={actionClassName}>Remove</button>
+        )}
+      </div>
+      {!item.notFood && <AlternativeChoices item={item} onSelect={onAlternativeSelect} />}
+      {!item.notFood && item.portion && item.energyDensity !== undefined && (
+        <div className="mt-3 flex items-center gap-3">
+          <input
+            type="range"
+            min={0}
+            max={sliderMax(item)}
+            step={5}
+            value={item.portion.amount}
+            onChange={(e) => onPortionChange(Number(e.target.value))}
+            className="flex-grow accent-indigo-500"
+            aria-label={`Portion of ${item.name} in ${item.portion.unit}`}
+          />
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0}
+              step={1}
+              value={portionInput ?? Math.round(item.portion.amount)}
+              onChange={(e) => {
+                setPortionInput(e.target.value);
+                const amount = parsePortion(e.target.value);
+                if (amount !== null) onPortionChange(amount);
+              }}
+              onBlur={() => setPortionInput(null)}
+              className={`${inputClassName} w-20 text-right`}
+              aria-label={`Portion of ${item.name}`}
+            />
+            <span className="text-sm text-gray-400">{item.portion.unit}</span>
+          </div>
+        </div>
+      )}
+      {!item.notFood && item.estimatedPortion && (
+        <p className="mt-1 text-xs text-gray-500">
+          Estimated {Math.round(item.estimatedPortion.amount)} {item.estimatedPortion.unit} ({item.estimatedPortion.householdMeasure})
+          {item.energyDensity !== undefined && ` · ${Math.round(item.energyDensity)} kcal/100 ${item.estimatedPortion.unit}`}
+        </p>
+      )}
+      {!item.notFood && (item.barcode || item.fromLabel) && (
+        <p className="mt-1 text-xs text-gray-500">Nutrition from the product label</p>
+      )}
+      {!item.notFood && !item.barcode && !item.fromLabel && item.portion && (
+        <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <span>
+            {item.foodMatch ? <>Nutrition from database: <span className="text-gray-300">{item.foodMatch.name}</span></> : 'Nutrition estimated by the model'}
+          </span>
+          <button onClick={() => setIsMatching(open => !open)} className="text-indigo-400 hover:underline" aria-expanded={isMatching}>
+            {item.foodMatch ? 'Change match' : 'Match food'}
+          </button>
+        </div>
+      )}
+      {isMatching && !item.notFood && item.portion && (
+        <FoodMatchPicker
+          initialQuery={item.name ?? ''}
+          currentFoodId={item.foodMatch?.foodId}
+          canUseModelEstimate={!!item.modelEstimate}
+          onSelect={(food) => { onFoodSelect(food); setIsMatching(false); }}
+          onUseModelEstimate={() => { onClearFoodMatch(); setIsMatching(false); }}
+          onClose={() => setIsMatching(false)}
+        />
+      )}
+    </li>
+  );
+};
+
+export const MealItemList: React.FC<MealItemListProps> = ({ boxes, extraItems, onBoxesChange, onExtraItemsChange, editingItemId, onEditingItemIdChange }) => {
+  const [newName, setNewName] = useState('');
+  const [newCalories, setNewCalories] = useState('');
+
+  const updateBox = (id: string, update: (box: UserBox) => UserBox) =>
+    onBoxesChange(boxes.map(box => box.id === id ? update(box) : box));
+  const updateExtra = (id: string, update: (item: MealItem) => MealItem) =>
+    onExtraItemsChange(extraItems.map(item => item.id === id ? update(item) : item));
+
+  const parsedNewCalories = parseCalories(newCalories);
+  const canAdd = newName.trim() !== '' && parsedNewCalories !== null;
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+    onExtraItemsChange([...extraItems, { id: uuid(), name: newName.trim(), calories: parsedNewCalories!, userProvided: true }]);
+    setNewName('');
+    setNewCalories('');
+  };
+
+  const renderRow = (item: MealItem, isBox: boolean) => {
+    const update = isBox
+      ? (fn: (item: MealItem) => MealItem) => updateBox(item.id, box => fn(box) as UserBox)
+      : (fn: (item: MealItem) => MealItem) => updateExtra(item.id, fn);
+    return (
+      <MealItemRow
+        key={item.id}
+        item={item}
+        isEditing={editingItemId === item.id}
+        onStartEdit={() => onEditingItemIdChange(item.id)}
+        onCancelEdit={() => onEditingItemIdChange(null)}
+        onSave={(name, calories) => {
+          update(current => applyCorrection(current, name, calories));
+          onEditingItemIdChange(null);
+        }}
+        onPortionChange={(amount) => {
+          if (Number.isFinite(amount)) update(current => scaleToPortion(current, amount));
+        }}
+        onFoodSelect={(food) => update(current => applyFoodMatch(current, food, 1))}
+        onClearFoodMatch={() => update(clearFoodMatch)}
+        onAlternativeSelect={(index) => update(current => applyAlternative(current, index))}
+        onToggleNotFood={isBox ? () => update(current => ({ ...current, notFood: !current.notFood, userProvided: true })) : undefined}
+        onRemove={isBox ? undefined : () => onExtraItemsChange(extraItems.filter(extra => extra.id !== item.id))}
+      />
+    );
+  };
+
+  return (
+    <section className="w-full max-w-2xl mx-auto mt-6" aria-label="Meal items">
+      <ul className="divide-y divide-gray-700 border border-gray-700 rounded-lg bg-gray-900/60">
+        {boxes.map(box => renderRow(box, true))}
+        {extraItems.map(item => renderRow(item, false))}
+        <li className="p-4">
+          <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Add an item without a box"
+              className={`${inputClassName} flex-grow min-w-[8rem]`}
+              aria-label="New item name"
+            />
+            <input
+              type="number"
+              min={0}
+              value={newCalories}
+              onChange={(e) => setNewCalories(e.target.value)}
+              placeholder="kcal"
+              className={`${inputClassName} w-24 text-right`}
+              aria-label="New item calories"
+            />
+            <button type="submit" disabled={!canAdd} className="px-3 py-1 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+              Add
+            </button>
+          </form>
+        </li>
+      </ul>
+    </section>
+  );
+};
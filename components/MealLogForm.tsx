@@ -0,0 +1,75 @@
+import React, { useState, useEffect } from 'react';
+import type { MealType } from '../types';
+import { MEAL_TYPES } from '../services/mealLogService';
+import { toDateTimeLocalValue, fromDateTimeLocalValue } from '../utils/date';
+
+interface MealLogFormProps {
+  initialMealType: MealType;
+  initialTimestamp: number;
+  isExistingMeal: boolean;
+  disabled: boolean;
+  onSave: (mealType: MealType, timestamp: number) => Promise<void>;
+}
+
+export const MealLogForm: React.FC<MealLogFormProps> = ({ initialMealType, initialTimestamp, isExistingMeal, disabled, onSave }) => {
+  const [mealType, setMealType] = useState<MealType>(initialMealType);
+  const [dateTime, setDateTime] = useState(toDateTimeLocalValue(initialTimestamp));
+  const [status, setStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
+  useEffect(() => {
+    setMealType(initialMealType);
+    setDateTime(toDateTimeLocalValue(initialTimestamp));
+  }, [initialMealType, initialTimestamp]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const timestamp = fromDateTimeLocalValue(dateTime);
+    if (timestamp === null) {
+      setStatus('error');
+      return;
+    }
+    setStatus('saving');
+    try {
+      await onSave(mealType, timestamp);
+      setStatus('saved');
+    } catch (err) {
+      console.error(err);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-2xl mx-auto mt-6 p-4 bg-gray-900/60 border border-gray-700 rounded-lg flex flex-wrap items-end gap-4">
+      <label className="flex flex-col text-sm text-gray-400">
+        Meal
+        <select
+          value={mealType}
+          onChange={(e) => { setMealType(e.target.value as MealType); setStatus('idle'); }}
+          className="mt-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white capitalize focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {MEAL_TYPES.map(type => (
+            <option key={type} value={type} className="capitalize">{type}</option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col text-sm text-gray-400">
+        Eaten at
+        <input
+          type="datetime-local"
+          value={dateTime}
+          onChange={(e) => { setDateTime(e.target.value); setStatus('idle'); }}
+          className="mt-1 px-3 py-2 bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={disabled || status === 'saving'}
+        className="ml-auto inline-flex items-center gap-2 px-5 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-emerald-600 hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {status === 'saving' ? 'Saving...' : isExistingMeal ? 'Update Meal' : 'Save to Log'}
+      </button>
+      {status === 'saved' && <p className="w-full text-sm text-emerald-400">Meal saved to your log.</p>}
+      {status === 'error' && <p className="w-full text-sm text-red-400">Could not save this meal. Please try again.</p>}
+    </form>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import type { MealItem, UserBox } from '../types';
+import { countsTowardTotals, getEatenCalories, getMealTotals } from '../utils/nutrition';
+
+export interface ItemHighlight {
+  id: string;
+  source: 'table' | 'image';
+}
+
+interface MealSummaryTableProps {
+  boxes: UserBox[];
+  extraItems: MealItem[];
+  highlight: ItemHighlight | null;
+  onHighlightChange: (highlight: ItemHighlight | null) => void;
+}
+
+export const MealSummaryTable: React.FC<MealSummaryTableProps> = ({ boxes, extraItems, highlight, onHighlightChange }) => {
+  const rowRefs = useRef<Map<string, HTMLTableRowElement>>(new Map());
+  const boxIds = new Set(boxes.map(box => box.id));
+  const items = [...boxes, ...extraItems].filter(countsTowardTotals);
+  const { calories: total } = getMealTotals(items);
+
+  // Tapping a box on the image brings its row into view; hovering rows must not scroll the page.
+  useEffect(() => {
+    if (highlight?.source !== 'image') return;
+    rowRefs.current.get(highlight.id)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [highlight]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <section className="w-full max-w-2xl mx-auto mt-6" aria-label="Meal summary">
+      <table className="w-full text-sm border border-gray-700 rounded-lg overflow-hidden bg-gray-900/60">
+        <thead className="bg-gray-800/80 text-gray-400">
+          <tr>
+            <th scope="col" className="px-3 py-2 text-left font-medium">Item</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Calories</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium w-1/3">Share</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-800">
+          {items.map(item => {
+            const eaten = getEatenCalories(item);
+            const share = total > 0 ? eaten / total : 0;
+            const hasBox = boxIds.has(item.id);
+            const isHighlighted = highlight?.id === item.id;
+            return (
+              <tr
+                key={item.id}
+                ref={el => {
+                  if (el) rowRefs.current.set(item.id, el);
+                  else rowRefs.current.delete(item.id);
+                }}
+                className={`transition-colors ${hasBox ? 'cursor-pointer' : ''} ${isHighlighted ? 'bg-yellow-300/10' : 'hover:bg-gray-800/60'}`}
+                onMouseEnter={hasBox ? () => onHighlightChange({ id: item.id, source: 'table' }) : undefined}
+                onMouseLeave={hasBox ? () => onHighlightChange(null) : undefined}
+                onClick={hasBox ? () => onHighlightChange(isHighlighted ? null : { id: item.id, source: 'table' }) : undefined}
+              >
+                <td className="px-3 py-2">
+                  <span className="text-gray-100 capitalize">{item.name}</span>
+                  {!hasBox && <span className="ml-2 text-xs text-gray-500">no box</span>}
+                </td>
+                <td className="px-3 py-2 text-right text-gray-200 whitespace-nowrap">
+                  {eaten} kcal
+                  {item.leftover && item.leftover.fraction > 0 && (
+                    <span className="block text-xs text-gray-500">of {item.calories} served</span>
+                  )}
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center justify-end gap-2">
+                    <div className="hidden sm:block flex-grow h-2 rounded-full bg-gray-700 overflow-hidden">
+                      <div className={`h-full ${isHighlighted ? 'bg-yellow-300' : 'bg-indigo-500'}`} style={{ width: `${share * 100}%` }} />
+                    </div>
+                    <span className="w-10 text-right text-gray-400">{Math.round(share * 100)}%</span>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot className="border-t border-gray-600">
+          <tr>
+            <th scope="row" className="px-3 py-2 text-left font-semibold text-white">Total</th>
+            <td className="px-3 py-2 text-right font-bold text-indigo-300 whitespace-nowrap">{Math.round(total)} kcal</td>
+            <td className="px-3 py-2 text-right text-gray-400">100%</td>
+          </tr>
+        </tfoot>
+      </table>
+    </section>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import type { Macros, MealItem, NutritionLabel, PortionUnit } from '../types';
+import { MACRO_KEYS, MACRO_LABELS, MACRO_UNITS, emptyMacros, formatMacro, labelToMealItem } from '../utils/nutrition';
+
+interface NutritionLabelFormProps {
+  label: NutritionLabel | null; // null when the label could not be read and values must be typed in
+  imageUrl: string | null;
+  onAdd: (item: MealItem) => void;
+  onCancel: () => void;
+}
+
+const uuid = () => crypto.randomUUID();
+
+const inputClassName = 'w-full px-2 py-1 text-sm bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const parseAmount = (value: string): number | null => {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+const toField = (value: number | undefined) => value !== undefined ? String(Math.round(value * 10) / 10) : '';
+
+export const NutritionLabelForm: React.FC<NutritionLabelFormProps> = ({ label, imageUrl, onAdd, onCancel }) => {
+  const [name, setName] = useState(label?.productName ?? '');
+  const [servingAmount, setServingAmount] = useState(toField(label?.servingSize.amount));
+  const [servingUnit, setServingUnit] = useState<PortionUnit>(label?.servingSize.unit ?? 'g');
+  const [householdMeasure, setHouseholdMeasure] = useState(label?.servingSize.householdMeasure ?? '');
+  const [servingsPerContainer, setServingsPerContainer] = useState(toField(label?.servingsPerContainer));
+  const [calories, setCalories] = useState(toField(label?.calories));
+  const [macros, setMacros] = useState<Record<keyof Macros, string>>(() => {
+    const fields = {} as Record<keyof Macros, string>;
+    for (const key of MACRO_KEYS) fields[key] = toField(label?.macros[key]);
+    return fields;
+  });
+  const [servings, setServings] = useState('1');
+
+  const amount = parseAmount(servingAmount);
+  const energy = parseAmount(calories);
+  const servingCount = parseAmount(servings);
+  const perContainer = parseAmount(servingsPerContainer);
+
+  const edited: NutritionLabel | null = amount !== null && amount > 0 && energy !== null
+    ? {
+        productName: name.trim() || undefined,
+        servingSize: { amount, unit: servingUnit, householdMeasure: householdMeasure.trim() },
+        servingsPerContainer: perContainer ?? undefined,
+        calories: energy,
+        macros: MACRO_KEYS.reduce((values, key) => ({ ...values, [key]: parseAmount(macros[key]) ?? 0 }), emptyMacros()),
+      }
+    : null;
+  const preview = edited && servingCount !== null && servingCount > 0 ? labelToMealItem(uuid(), edited, servingCount) : null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (preview) onAdd(preview);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-2xl mx-auto space-y-4">
+      <div className="flex items-start gap-4">
+        {imageUrl && <img src={imageUrl} alt="Photographed nutrition label" className="w-24 h-32 object-cover rounded-md flex-shrink-0" />}
+        <div className="flex-grow">
+          <h2 className="text-2xl font-semibold text-white">Nutrition label</h2>
+          <p className="mt-1 text-sm text-gray-400">
+            {label
+              ? 'Check the values read from the label and correct anything that is wrong.'
+              : 'The label could not be read. Enter the values from the package.'}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="text-sm text-gray-400">
+          Product
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Packaged food" className={`${inputClassName} mt-1`} />
+        </label>
+        <div className="text-sm text-gray-400">
+          Serving size
+          <div className="mt-1 flex gap-2">
+            <input type="number" min={0} step="any" value={servingAmount} onChange={(e) => setServingAmount(e.target.value)} className={`${inputClassName} text-right`} aria-label="Serving size" />
+            <select value={servingUnit} onChange={(e) => setServingUnit(e.target.value as PortionUnit)} className={`${inputClassName} w-20`} aria-label="Serving unit">
+              <option value="g">g</option>
+              <option value="ml">ml</option>
+            </select>
+          </div>
+        </div>
+        <label className="text-sm text-gray-400">
+          Serving description
+          <input value={householdMeasure} onChange={(e) => setHouseholdMeasure(e.target.value)} placeholder="e.g. 2/3 cup" className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="text-sm text-gray-400">
+          Servings per container
+          <input type="number" min={0} step="any" value={servingsPerContainer} onChange={(e) => setServingsPerContainer(e.target.value)} className={`${inputClassName} mt-1 text-right`} />
+        </label>
+      </div>
+
+      <fieldset className="p-3 border border-gray-700 rounded-md">
+        <legend className="px-1 text-sm text-gray-400">Per serving</legend>
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+          <label className="text-xs text-gray-400">
+            Energy (kcal)
+            <input type="number" min={0} step="any" value={calories} onChange={(e) => setCalories(e.target.value)} className={`${inputClassName} mt-1 text-right`} />
+          </label>
+          {MACRO_KEYS.map(key => (
+            <label key={key} className="text-xs text-gray-400">
+              {MACRO_LABELS[key]} ({MACRO_UNITS[key]})
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={macros[key]}
+                onChange={(e) => setMacros(current => ({ ...current, [key]: e.target.value }))}
+                className={`${inputClassName} mt-1 text-right`}
+              />
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+        <label className="flex items-center gap-2">
+          Servings eaten
+          <input type="number" min={0} step={0.5} value={servings} onChange={(e) => setServings(e.target.value)} className={`${inputClassName} w-24 text-right`} />
+        </label>
+        {perContainer !== null && perContainer > 0 && (
+          <button type="button" onClick={() => setServings(String(perContainer))} className="px-2 py-1 text-xs rounded-md text-gray-300 bg-gray-700 hover:bg-gray-600">
+            Whole package
+          </button>
+        )}
+      </div>
+
+      {preview && (
+        <p className="text-sm text-gray-300">
+          <span className="font-semibold text-indigo-300">{preview.calories} kcal</span>
+          {preview.macros && ` · ${MACRO_KEYS.slice(0, 3).map(key => `${MACRO_LABELS[key]} ${formatMacro(key, preview.macros![key])}`).join(' · ')}`}
+        </p>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button type="submit" disabled={!preview} className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+          Add to meal
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
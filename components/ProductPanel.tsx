@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from 'react';
+import type { Macros, MealItem, PortionUnit, Product } from '../types';
+import { findProduct, saveProduct } from '../services/productService';
+import { formatBarcode } from '../utils/barcode';
+import { MACRO_KEYS, MACRO_LABELS, MACRO_UNITS, emptyMacros, formatMacro, productToMealItem, scaleMacros } from '../utils/nutrition';
+
+interface ProductPanelProps {
+  barcode: string;
+  onAdd: (item: MealItem) => void;
+  onCancel: () => void;
+}
+
+type LabelBasis = 'serving' | '100';
+
+const uuid = () => crypto.randomUUID();
+
+const inputClassName = 'w-full px-2 py-1 text-sm bg-gray-800 border border-gray-600 rounded-md text-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const parseAmount = (value: string): number | null => {
+  const amount = Number(value);
+  return value.trim() !== '' && Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+// Form for entering a product's label by hand when its barcode is not in the local table yet.
+const ProductForm: React.FC<{ barcode: string; onSaved: (product: Product) => void; onCancel: () => void }> = ({ barcode, onSaved, onCancel }) => {
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [servingAmount, setServingAmount] = useState('');
+  const [servingUnit, setServingUnit] = useState<PortionUnit>('g');
+  const [householdMeasure, setHouseholdMeasure] = useState('');
+  const [basis, setBasis] = useState<LabelBasis>('serving');
+  const [calories, setCalories] = useState('');
+  const [macros, setMacros] = useState<Record<keyof Macros, string>>({ protein: '', carbohydrate: '', fat: '', fiber: '', sugar: '', sodium: '' });
+  const [status, setStatus] = useState<'idle' | 'saving' | 'error'>('idle');
+
+  const amount = parseAmount(servingAmount);
+  const energy = parseAmount(calories);
+  const canSave = name.trim() !== '' && amount !== null && amount > 0 && energy !== null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    const values = emptyMacros();
+    for (const key of MACRO_KEYS) {
+      values[key] = parseAmount(macros[key]) ?? 0;
+    }
+    // Labels list values per serving or per 100 g/ml; the table always stores per 100.
+    const factor = basis === 'serving' ? 100 / amount! : 1;
+    const product: Product = {
+      barcode,
+      name: name.trim(),
+      brand: brand.trim() || undefined,
+      serving: { amount: amount!, unit: servingUnit, householdMeasure: householdMeasure.trim() },
+      energyDensity: energy! * factor,
+      nutrientDensity: scaleMacros(values, factor),
+    };
+    setStatus('saving');
+    try {
+      await saveProduct(product);
+      onSaved(product);
+    } catch (err) {
+      console.error(err);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+      <p className="text-sm text-gray-400">This product is not in your product table yet. Enter the details from its nutrition label.</p>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <label className="text-sm text-gray-400">
+          Name
+          <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClassName} mt-1`} autoFocus />
+        </label>
+        <label className="text-sm text-gray-400">
+          Brand
+          <input value={brand} onChange={(e) => setBrand(e.target.value)} className={`${inputClassName} mt-1`} />
+        </label>
+        <div className="text-sm text-gray-400">
+          Serving size
+          <div className="mt-1 flex gap-2">
+            <input type="number" min={0} value={servingAmount} onChange={(e) => setServingAmount(e.target.value)} className={`${inputClassName} text-right`} aria-label="Serving size" />
+            <select value={servingUnit} onChange={(e) => setServingUnit(e.target.value as PortionUnit)} className={`${inputClassName} w-20`} aria-label="Serving unit">
+              <option value="g">g</option>
+              <option value="ml">ml</option>
+            </select>
+          </div>
+        </div>
+        <label className="text-sm text-gray-400">
+          Serving description
+          <input value={householdMeasure} onChange={(e) => setHouseholdMeasure(e.target.value)} placeholder="e.g. 1 bar" className={`${inputClassName} mt-1`} />
+        </label>
+      </div>
+
+      <fieldset className="p-3 border border-gray-700 rounded-md">
+        <legend className="px-1 text-sm text-gray-400">
+          Nutrition per{' '}
+          <select value={basis} onChange={(e) => setBasis(e.target.value as LabelBasis)} className="bg-gray-800 border border-gray-600 rounded-md text-white text-sm" aria-label="Label values are per">
+            <option value="serving">serving</option>
+            <option value="100">100 {servingUnit}</option>
+          </select>
+        </legend>
+        <div className="grid gap-3 grid-cols-2 sm:grid-cols-4">
+          <label className="text-xs text-gray-400">
+            Energy (kcal)
+            <input type="number" min={0} value={calories} onChange={(e) => setCalories(e.target.value)} className={`${inputClassName} mt-1 text-right`} />
+          </label>
+          {MACRO_KEYS.map(key => (
+            <label key={key} className="text-xs text-gray-400">
+              {MACRO_LABELS[key]} ({MACRO_UNITS[key]})
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={macros[key]}
+                onChange={(e) => setMacros(current => ({ ...current, [key]: e.target.value }))}
+                className={`${inputClassName} mt-1 text-right`}
+              />
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="flex items-center gap-2">
+        <button type="submit" disabled={!canSave || status === 'saving'} className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+          {status === 'saving' ? 'Saving...' : 'Save product'}
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+          Cancel
+        </button>
+        {status === 'error' && <span className="text-sm text-red-400">Could not save the product.</span>}
+      </div>
+    </form>
+  );
+};
+
+export const ProductPanel: React.FC<ProductPanelProps> = ({ barcode, onAdd, onCancel }) => {
+  const [product, setProduct] = useState<Product | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [servings, setServings] = useState('1');
+
+  useEffect(() => {
+    let isMounted = true;
+    setProduct(undefined);
+    findProduct(barcode)
+      .then(result => { if (isMounted) setProduct(result ?? null); })
+      .catch(err => {
+        console.error(err);
+        if (isMounted) setError('Could not read your product table.');
+      });
+    return () => { isMounted = false; };
+  }, [barcode]);
+
+  const servingCount = parseAmount(servings);
+  const preview = product && servingCount !== null ? productToMealItem(uuid(), product, servingCount) : null;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="flex items-baseline justify-between gap-4">
+        <h2 className="text-2xl font-semibold text-white">{product ? product.name : 'Scanned product'}</h2>
+        <span className="text-sm font-mono text-gray-400">{formatBarcode(barcode)}</span>
+      </div>
+      {product?.brand && <p className="text-gray-400">{product.brand}</p>}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-4">
+          <p className="text-red-400">{error}</p>
+          <button onClick={onCancel} className="px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">Back</button>
+        </div>
+      )}
+      {!error && product === undefined && (
+        <div className="flex justify-center py-8">
+          <div className="w-10 h-10 border-4 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      )}
+      {product === null && <ProductForm barcode={barcode} onSaved={setProduct} onCancel={onCancel} />}
+
+      {product && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (preview && servingCount! > 0) onAdd(preview);
+          }}
+          className="mt-4 space-y-4"
+        >
+          <p className="text-sm text-gray-400">
+            Serving: {Math.round(product.serving.amount)} {product.serving.unit}
+            {product.serving.householdMeasure && ` (${product.serving.householdMeasure})`}
+            {' · '}{Math.round(product.energyDensity)} kcal/100 {product.serving.unit}
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            Servings
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={servings}
+              onChange={(e) => setServings(e.target.value)}
+              className={`${inputClassName} w-24 text-right`}
+              autoFocus
+            />
+          </label>
+          {preview && (
+            <dl className="grid grid-cols-3 sm:grid-cols-7 gap-2 text-center">
+              <div className="p-2 bg-gray-900/60 rounded-md">
+                <dt className="text-xs text-gray-500">Energy</dt>
+                <dd className="font-semibold text-indigo-300">{preview.calories} kcal</dd>
+              </div>
+              {MACRO_KEYS.map(key => (
+                <div key={key} className="p-2 bg-gray-900/60 rounded-md">
+                  <dt className="text-xs text-gray-500">{MACRO_LABELS[key]}</dt>
+                  <dd className="font-semibold text-gray-200">{formatMacro(key, preview.macros?.[key] ?? 0)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+          <div className="flex items-center gap-2">
+            <button type="submit" disabled={!preview || servingCount! <= 0} className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50">
+              Add to meal
+            </button>
+            <button type="button" onClick={onCancel} className="px-4 py-2 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
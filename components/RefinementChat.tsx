@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import type { ChatMessage, MealItem, MealUpdate } from '../types';
+
+// An update from the model waiting for the user to accept or reject it
+export interface ProposedUpdate {
+  id: string;
+  update: MealUpdate;
+}
+
+interface RefinementChatProps {
+  messages: ChatMessage[];
+  proposals: ProposedUpdate[];
+  items: MealItem[];
+  isSending: boolean;
+  onSend: (text: string) => void;
+  onAccept: (ids: string[]) => void;
+  onReject: (ids: string[]) => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 text-sm rounded-md text-gray-200 bg-gray-700 hover:bg-gray-600 disabled:opacity-50';
+
+const ACTION_LABELS: Record<MealUpdate['action'], string> = {
+  rename: 'Rename',
+  recalorie: 'Adjust',
+  add: 'Add',
+  remove: 'Remove',
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${Math.abs(delta)} kcal`;
+
+// What the update changes, as "before → after", and its effect on the meal's calories
+function describeUpdate(update: MealUpdate, item: MealItem | undefined): { text: string; delta: number } {
+  const before = item?.calories ?? 0;
+  const measure = update.portion?.householdMeasure ? ` (${update.portion.householdMeasure})` : '';
+  switch (update.action) {
+    case 'add':
+      return { text: `${update.name}${measure}, ${update.calories} kcal`, delta: update.calories ?? 0 };
+    case 'remove':
+      return { text: `${item?.name}, ${before} kcal`, delta: -before };
+    case 'rename': {
+      const after = update.calories ?? before;
+      return { text: `${item?.name} → ${update.name}${after !== before ? `, ${before} → ${after} kcal` : ''}`, delta: after - before };
+    }
+    default:
+      return { text: `${item?.name}${measure}, ${before} → ${update.calories} kcal`, delta: (update.calories ?? before) - before };
+  }
+}
+
+export const RefinementChat: React.FC<RefinementChatProps> = ({ messages, proposals, items, isSending, onSend, onAccept, onReject }) => {
+  const [draft, setDraft] = useState('');
+  // An update for an item that was deleted since it was proposed can only be dismissed.
+  const isApplicable = ({ update }: ProposedUpdate) => update.action === 'add' || items.some(item => item.id === update.id);
+  const applicableIds = proposals.filter(isApplicable).map(proposal => proposal.id);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || isSending) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  return (
+    <section className="w-full max-w-2xl mx-auto mt-6 p-4 bg-gray-900/60 border border-gray-700 rounded-lg" aria-label="Refine with the model">
+      <h3 className="text-sm uppercase tracking-wide text-gray-500">Refine</h3>
+      <p className="mt-1 text-sm text-gray-400">
+        Tell the model what the photo can't show, like "that's brown rice", "there's butter in the potatoes" or "I only had half the pasta".
+      </p>
+
+      {messages.length > 0 && (
+        <ol className="mt-3 space-y-2" aria-live="polite">
+          {messages.map((message, index) => (
+            <li key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <p className={`max-w-[85%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap
+                ${message.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-gray-800 text-gray-200'}`}>
+                <span className="sr-only">{message.role === 'user' ? 'You: ' : 'Model: '}</span>
+                {message.text}
+              </p>
+            </li>
+          ))}
+          {isSending && (
+            <li className="flex items-center gap-2 text-sm text-gray-400">
+              <div className="w-4 h-4 border-2 border-indigo-400 border-t-transparent rounded-full animate-spin"></div>
+              Thinking...
+            </li>
+          )}
+        </ol>
+      )}
+
+      {proposals.length > 0 && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold text-gray-300">Suggested changes</h4>
+            <div className="flex gap-2">
+              <button onClick={() => onAccept(applicableIds)} disabled={applicableIds.length === 0} className={buttonClassName}>
+                Accept all
+              </button>
+              <button onClick={() => onReject(proposals.map(proposal => proposal.id))} className={buttonClassName}>
+                Reject all
+              </button>
+            </div>
+          </div>
+          <ul className="mt-2 divide-y divide-gray-800">
+            {proposals.map(proposal => {
+              const { update } = proposal;
+              const item = items.find(candidate => candidate.id === update.id);
+              const applicable = isApplicable(proposal);
+              const { text, delta } = describeUpdate(update, item);
+              return (
+                <li key={proposal.id} className="py-2 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-gray-100">
+                      <span className="mr-2 px-1.5 py-0.5 text-[10px] uppercase tracking-wide rounded bg-indigo-500/20 text-indigo-300">
+                        {ACTION_LABELS[update.action]}
+                      </span>
+                      {applicable ? text : 'This item is no longer in the meal.'}
+                    </p>
+                    {applicable && (
+                      <p className="mt-0.5 text-xs text-gray-400">
+                        <span className={delta > 0 ? 'text-amber-300' : delta < 0 ? 'text-emerald-300' : ''}>{formatDelta(delta)}</span>
+                        {update.reason && ` · ${update.reason}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {applicable && (
+                      <button
+                        onClick={() => onAccept([proposal.id])}
+                        className="px-3 py-1.5 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                        aria-label={`Accept: ${ACTION_LABELS[update.action]} ${text}`}
+                      >
+                        Accept
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onReject([proposal.id])}
+                      className={buttonClassName}
+                      aria-label={`${applicable ? 'Reject' : 'Dismiss'}: ${ACTION_LABELS[update.action]} ${text}`}
+                    >
+                      {applicable ? 'Reject' : 'Dismiss'}
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-4 flex gap-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add a correction..."
+          aria-label="Message to the model"
+          className="flex-grow px-3 py-2 text-sm bg-gray-800 border border-gray-600 rounded-md text-gray-100 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          type="submit"
+          disabled={isSending || !draft.trim()}
+          className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-900/50 disabled:text-gray-400 disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </form>
+    </section>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import type { DailyTotal } from '../utils/mealStats';
+
+interface TrendChartProps {
+  days: DailyTotal[];
+  target: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 220;
+const PADDING = { top: 16, right: 12, bottom: 28, left: 44 };
+
+const formatDayLabel = (date: number, dense: boolean) =>
+  new Date(date).toLocaleDateString(undefined, dense ? { day: 'numeric', month: 'numeric' } : { weekday: 'short' });
+
+export const TrendChart: React.FC<TrendChartProps> = ({ days, target }) => {
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(target, ...days.map(day => day.calories), 1) * 1.1;
+  const slot = plotWidth / Math.max(days.length, 1);
+  const barWidth = Math.max(2, slot * 0.7);
+  const dense = days.length > 10;
+  const labelEvery = dense ? Math.ceil(days.length / 6) : 1;
+  const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight;
+  const gridValues = [...new Set([0, 0.25, 0.5, 0.75, 1].map(f => Math.round(maxValue * f / 100) * 100))];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`Daily calories for the last ${days.length} days against a target of ${target} kcal`}
+    >
+      {gridValues.map(value => (
+        <g key={value}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(value)} y2={y(value)} className="stroke-gray-700" strokeWidth={1} />
+          <text x={PADDING.left - 6} y={y(value)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[10px]">
+            {value}
+          </text>
+        </g>
+      ))}
+
+      {days.map((day, index) => {
+        const x = PADDING.left + index * slot + (slot - barWidth) / 2;
+        const barTop = y(day.calories);
+        return (
+          <g key={day.dayKey}>
+            <rect
+              x={x}
+              y={barTop}
+              width={barWidth}
+              height={PADDING.top + plotHeight - barTop}
+              rx={Math.min(3, barWidth / 2)}
+              className={day.calories > target ? 'fill-rose-500' : 'fill-indigo-500'}
+            >
+              <title>{`${new Date(day.date).toLocaleDateString()}: ${Math.round(day.calories)} kcal`}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={x + barWidth / 2} y={HEIGHT - 8} textAnchor="middle" className="fill-gray-400 text-[10px]">
+                {formatDayLabel(day.date, dense)}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      <line
+        x1={PADDING.left}
+        x2={WIDTH - PADDING.right}
+        y1={y(target)}
+        y2={y(target)}
+        className="stroke-emerald-400"
+        strokeWidth={1.5}
+        strokeDasharray="6 4"
+      />
+      <text x={WIDTH - PADDING.right} y={y(target) - 4} textAnchor="end" className="fill-emerald-400 text-[10px]">
+        Target {target}
+      </text>
+    </svg>
+  );
+};
@@ -0,0 +1,93 @@
+import type { FoodReference, Macros } from '../types';
+
+export const FOOD_DATABASE_SOURCE = 'USDA FoodData Central (SR Legacy)';
+
+// Per 100 g edible portion: [kcal, protein g, carbohydrate g, fat g, fiber g, sugar g, sodium mg]
+type Per100g = [number, number, number, number, number, number, number];
+
+const food = (id: string, name: string, aliases: string[], values: Per100g): FoodReference => {
+  const [energyDensity, protein, carbohydrate, fat, fiber, sugar, sodium] = values;
+  const nutrientDensity: Macros = { protein, carbohydrate, fat, fiber, sugar, sodium };
+  return { id, name, aliases, energyDensity, nutrientDensity };
+};
+
+export const FOODS: FoodReference[] = [
+  // Meat, fish and eggs
+  food('chicken-breast-roasted', 'Chicken breast, roasted', ['grilled chicken breast', 'chicken breast', 'grilled chicken', 'chicken fillet'], [165, 31, 0, 3.6, 0, 0, 74]),
+  food('chicken-thigh-roasted', 'Chicken thigh, roasted', ['chicken thigh', 'chicken leg', 'drumstick'], [209, 26, 0, 10.9, 0, 0, 88]),
+  food('beef-ground-cooked', 'Beef, ground, 85% lean, cooked', ['ground beef', 'minced beef', 'beef mince'], [250, 25.9, 0, 15.4, 0, 0, 72]),
+  food('beef-sirloin-grilled', 'Beef steak, sirloin, grilled', ['steak', 'beef steak', 'sirloin'], [206, 29, 0, 9.6, 0, 0, 56]),
+  food('pork-chop-cooked', 'Pork chop, cooked', ['pork chop', 'pork loin', 'pork'], [231, 25.7, 0, 13.6, 0, 0, 62]),
+  food('bacon-cooked', 'Bacon, cooked', ['bacon', 'bacon strips'], [541, 37, 1.4, 42, 0, 0, 1717]),
+  food('salmon-cooked', 'Salmon, Atlantic, cooked', ['salmon fillet', 'salmon', 'grilled salmon', 'baked salmon'], [206, 22.1, 0, 12.4, 0, 0, 61]),
+  food('tuna-canned-water', 'Tuna, canned in water', ['tuna', 'canned tuna'], [116, 25.5, 0, 0.8, 0, 0, 247]),
+  food('cod-cooked', 'Cod, cooked', ['cod', 'white fish', 'fish fillet'], [105, 22.8, 0, 0.9, 0, 0, 78]),
+  food('shrimp-cooked', 'Shrimp, cooked', ['shrimp', 'prawns'], [99, 24, 0.2, 0.3, 0, 0, 111]),
+  food('egg-fried', 'Egg, whole, fried', ['fried egg', 'sunny side up egg'], [196, 13.6, 0.8, 14.8, 0, 0.4, 207]),
+  food('egg-boiled', 'Egg, whole, hard-boiled', ['boiled egg', 'hard boiled egg'], [155, 12.6, 1.1, 10.6, 0, 1.1, 124]),
+  food('egg-scrambled', 'Egg, scrambled', ['scrambled eggs', 'omelette'], [148, 10, 1.6, 11, 0, 1.4, 145]),
+  food('tofu-firm', 'Tofu, firm', ['tofu', 'bean curd'], [144, 17.3, 2.8, 8.7, 2.3, 0.6, 14]),
+
+  // Grains, bread and starches
+  food('rice-white-cooked', 'Rice, white, cooked', ['steamed white rice', 'white rice', 'rice', 'steamed rice'], [130, 2.7, 28.2, 0.3, 0.4, 0.1, 1]),
+  food('rice-brown-cooked', 'Rice, brown, cooked', ['brown rice'], [123, 2.7, 25.6, 1, 1.6, 0.2, 4]),
+  food('rice-fried', 'Fried rice', ['egg fried rice'], [174, 6.3, 25, 5.5, 0.9, 0.8, 400]),
+  food('quinoa-cooked', 'Quinoa, cooked', ['quinoa'], [120, 4.4, 21.3, 1.9, 2.8, 0.9, 7]),
+  food('pasta-cooked', 'Pasta, cooked', ['pasta', 'spaghetti', 'penne', 'noodles'], [158, 5.8, 30.9, 0.9, 1.8, 0.6, 1]),
+  food('pasta-tomato-sauce', 'Spaghetti with tomato sauce', ['pasta with tomato sauce', 'spaghetti marinara', 'pasta marinara'], [128, 4.5, 23.4, 1.9, 1.7, 3.6, 216]),
+  food('bread-white', 'Bread, white', ['white bread', 'toast', 'bread'], [266, 8.9, 49.4, 3.3, 2.7, 5.7, 490]),
+  food('bread-whole-wheat', 'Bread, whole wheat', ['whole wheat bread', 'wholemeal bread', 'brown bread'], [252, 12.4, 42.7, 3.5, 6, 4.4, 450]),
+  food('bagel-plain', 'Bagel, plain', ['bagel'], [250, 10, 48.9, 1.5, 2.1, 6.1, 439]),
+  food('croissant', 'Croissant, butter', ['croissant'], [406, 8.2, 45.8, 21, 2.6, 11.3, 467]),
+  food('oatmeal-cooked', 'Oatmeal, cooked with water', ['oatmeal', 'porridge', 'oats'], [71, 2.5, 12, 1.5, 1.7, 0.3, 4]),
+  food('potato-baked', 'Potato, baked', ['baked potato', 'potato', 'jacket potato'], [93, 2.5, 21.2, 0.1, 2.2, 1.2, 10]),
+  food('potato-roasted', 'Potatoes, roasted', ['roasted potatoes', 'roast potatoes'], [107, 2.3, 18.1, 3.1, 2.1, 0.9, 193]),
+  food('potato-mashed', 'Potatoes, mashed', ['mashed potatoes', 'mash'], [113, 1.9, 16.9, 4.2, 1.5, 1.4, 317]),
+  food('french-fries', 'French fries', ['fries', 'chips', 'potato fries'], [312, 3.4, 41.4, 15, 3.8, 0.3, 210]),
+  food('sweet-potato-baked', 'Sweet potato, baked', ['sweet potato', 'yam'], [90, 2, 20.7, 0.2, 3.3, 6.5, 36]),
+
+  // Vegetables and legumes
+  food('broccoli-cooked', 'Broccoli, cooked', ['broccoli', 'steamed broccoli'], [35, 2.4, 7.2, 0.4, 3.3, 1.4, 41]),
+  food('carrots-raw', 'Carrots, raw', ['carrots', 'carrot', 'baby carrots'], [41, 0.9, 9.6, 0.2, 2.8, 4.7, 69]),
+  food('green-beans-cooked', 'Green beans, cooked', ['green beans', 'string beans'], [35, 1.9, 7.9, 0.3, 3.2, 3.6, 1]),
+  food('spinach-raw', 'Spinach, raw', ['spinach'], [23, 2.9, 3.6, 0.4, 2.2, 0.4, 79]),
+  food('salad-greens', 'Salad greens, mixed, raw', ['mixed green salad', 'green salad', 'salad', 'lettuce'], [20, 1.5, 3.6, 0.2, 2, 1.5, 30]),
+  food('tomato-raw', 'Tomato, raw', ['tomato', 'tomatoes', 'cherry tomatoes'], [18, 0.9, 3.9, 0.2, 1.2, 2.6, 5]),
+  food('cucumber-raw', 'Cucumber, raw', ['cucumber'], [15, 0.7, 3.6, 0.1, 0.5, 1.7, 2]),
+  food('onion-raw', 'Onion, raw', ['onion', 'onions'], [40, 1.1, 9.3, 0.1, 1.7, 4.2, 4]),
+  food('bell-pepper-raw', 'Bell pepper, red, raw', ['bell pepper', 'red pepper', 'capsicum'], [31, 1, 6, 0.3, 2.1, 4.2, 4]),
+  food('corn-cooked', 'Sweet corn, cooked', ['corn', 'sweetcorn', 'corn on the cob'], [96, 3.4, 21, 1.5, 2.4, 4.5, 1]),
+  food('peas-cooked', 'Green peas, cooked', ['peas', 'green peas'], [84, 5.4, 15.6, 0.2, 5.5, 5.9, 3]),
+  food('avocado', 'Avocado, raw', ['avocado', 'guacamole'], [160, 2, 8.5, 14.7, 6.7, 0.7, 7]),
+  food('black-beans-cooked', 'Black beans, cooked', ['black beans', 'beans'], [132, 8.9, 23.7, 0.5, 8.7, 0.3, 1]),
+  food('lentils-cooked', 'Lentils, cooked', ['lentils', 'dal'], [116, 9, 20.1, 0.4, 7.9, 1.8, 2]),
+  food('hummus', 'Hummus', ['hummus', 'houmous'], [166, 7.9, 14.3, 9.6, 6, 0.3, 379]),
+
+  // Fruit
+  food('apple-raw', 'Apple, raw', ['apple'], [52, 0.3, 13.8, 0.2, 2.4, 10.4, 1]),
+  food('banana-raw', 'Banana, raw', ['banana'], [89, 1.1, 22.8, 0.3, 2.6, 12.2, 1]),
+  food('orange-raw', 'Orange, raw', ['orange', 'mandarin'], [47, 0.9, 11.8, 0.1, 2.4, 9.4, 0]),
+  food('strawberries-raw', 'Strawberries, raw', ['strawberries', 'strawberry'], [32, 0.7, 7.7, 0.3, 2, 4.9, 1]),
+  food('blueberries-raw', 'Blueberries, raw', ['blueberries', 'berries'], [57, 0.7, 14.5, 0.3, 2.4, 10, 1]),
+  food('grapes-raw', 'Grapes, raw', ['grapes'], [69, 0.7, 18.1, 0.2, 0.9, 15.5, 2]),
+
+  // Dairy, fats and nuts
+  food('milk-whole', 'Milk, whole', ['milk', 'whole milk'], [61, 3.2, 4.8, 3.3, 0, 5.1, 43]),
+  food('yogurt-greek', 'Yogurt, Greek, plain, nonfat', ['greek yogurt', 'yogurt', 'yoghurt'], [59, 10.2, 3.6, 0.4, 0, 3.2, 36]),
+  food('cheese-cheddar', 'Cheese, cheddar', ['cheddar', 'cheese'], [403, 24.9, 1.3, 33.1, 0, 0.5, 621]),
+  food('cheese-mozzarella', 'Cheese, mozzarella', ['mozzarella'], [300, 22.2, 2.2, 22.4, 0, 1, 627]),
+  food('butter-salted', 'Butter, salted', ['butter'], [717, 0.9, 0.1, 81.1, 0, 0.1, 643]),
+  food('olive-oil', 'Olive oil', ['olive oil', 'oil'], [884, 0, 0, 100, 0, 0, 2]),
+  food('peanut-butter', 'Peanut butter, smooth', ['peanut butter'], [588, 25.1, 19.6, 50.4, 6, 9.2, 459]),
+  food('almonds', 'Almonds', ['almonds', 'nuts'], [579, 21.2, 21.6, 49.9, 12.5, 4.4, 1]),
+
+  // Prepared foods, snacks and drinks
+  food('pizza-cheese', 'Pizza, cheese', ['pizza', 'cheese pizza', 'margherita pizza'], [266, 11.4, 33, 9.7, 2.3, 3.6, 598]),
+  food('hamburger', 'Hamburger, single patty with bun', ['hamburger', 'burger', 'cheeseburger'], [254, 13.3, 26.5, 10.6, 1.4, 5.4, 423]),
+  food('cookie-chocolate-chip', 'Cookie, chocolate chip', ['chocolate chip cookie', 'cookie', 'biscuit'], [488, 5.4, 64.3, 24, 2.4, 33, 330]),
+  food('chocolate-dark', 'Chocolate, dark, 70-85% cacao', ['dark chocolate', 'chocolate'], [598, 7.8, 45.9, 42.6, 10.9, 24, 20]),
+  food('ice-cream-vanilla', 'Ice cream, vanilla', ['ice cream', 'vanilla ice cream'], [207, 3.5, 23.6, 11, 0.7, 21.2, 80]),
+  food('orange-juice', 'Orange juice', ['orange juice', 'juice'], [45, 0.7, 10.4, 0.2, 0.2, 8.4, 1]),
+  food('cola', 'Cola soft drink', ['cola', 'soda', 'soft drink', 'coke'], [42, 0, 10.6, 0, 0, 9, 4]),
+  food('coffee-brewed', 'Coffee, brewed', ['coffee', 'black coffee', 'americano'], [1, 0.1, 0, 0, 0, 0, 2]),
+];
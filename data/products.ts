@@ -0,0 +1,20 @@
+import type { Macros, Portion, Product } from '../types';
+
+export const PRODUCT_TABLE_SOURCE = 'Package labels, as listed on Open Food Facts';
+
+// Per 100 g or ml as printed: [kcal, protein g, carbohydrate g, fat g, fiber g, sugar g, sodium mg]
+type Per100 = [number, number, number, number, number, number, number];
+
+const product = (barcode: string, brand: string, name: string, serving: Portion, values: Per100): Product => {
+  const [energyDensity, protein, carbohydrate, fat, fiber, sugar, sodium] = values;
+  const nutrientDensity: Macros = { protein, carbohydrate, fat, fiber, sugar, sodium };
+  return { barcode, brand, name, serving, energyDensity, nutrientDensity };
+};
+
+// A starter set of common packaged foods, keyed by 13-digit GTIN. Products the user adds are stored separately and win.
+export const PRODUCTS: Product[] = [
+  product('3017620422003', 'Ferrero', 'Nutella hazelnut spread', { amount: 15, unit: 'g', householdMeasure: '1 tbsp' }, [539, 6.3, 57.5, 30.9, 0, 56.3, 43]),
+  product('8000500037560', 'Ferrero', 'Kinder Bueno', { amount: 21.5, unit: 'g', householdMeasure: '1 bar' }, [572, 8.6, 49.5, 37.3, 0, 41.2, 109]),
+  product('5449000000996', 'Coca-Cola', 'Coca-Cola Original Taste', { amount: 330, unit: 'ml', householdMeasure: '1 can' }, [42, 0, 10.6, 0, 0, 10.6, 0]),
+  product('5449000131805', 'Coca-Cola', 'Coca-Cola Zero Sugar', { amount: 330, unit: 'ml', householdMeasure: '1 can' }, [0.2, 0, 0, 0, 0, 0, 8]),
+];
@@ -0,0 +1,102 @@
+import { useState, useCallback } from 'react';
+
+interface UndoableState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // 'open' while a batch has begun but not changed anything yet, 'recorded' once its single entry exists
+  batch: 'open' | 'recorded' | null;
+}
+
+export interface UndoableStateControls<T> {
+  present: T;
+  set: (value: T | ((current: T) => T)) => void; // an updater sees the latest value, for changes made after an await
+  reset: (value: T) => void;
+  undo: () => void;
+  redo: () => void;
+  beginBatch: () => void;
+  endBatch: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// State with an undo/redo history. Changes made between beginBatch and endBatch collapse into one entry,
+// which is dropped again if the batch ends where it started.
+export function useUndoableState<T>(
+  initial: T,
+  isEqual: (a: T, b: T) => boolean = Object.is,
+  limit = 100,
+): UndoableStateControls<T> {
+  const [state, setState] = useState<UndoableState<T>>({ past: [], present: initial, future: [], batch: null });
+
+  const set = useCallback((valueOrUpdater: T | ((current: T) => T)) => {
+    setState(current => {
+      const value = valueOrUpdater instanceof Function ? valueOrUpdater(current.present) : valueOrUpdater;
+      if (isEqual(value, current.present)) return current;
+      if (current.batch === 'recorded') {
+        return { ...current, present: value };
+      }
+      return {
+        past: [...current.past, current.present].slice(-limit),
+        present: value,
+        future: [],
+        batch: current.batch ? 'recorded' : null,
+      };
+    });
+  }, [isEqual, limit]);
+
+  const reset = useCallback((value: T) => {
+    setState({ past: [], present: value, future: [], batch: null });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(current => {
+      if (current.past.length === 0 || current.batch) return current;
+      return {
+        past: current.past.slice(0, -1),
+        present: current.past[current.past.length - 1],
+        future: [current.present, ...current.future],
+        batch: null,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(current => {
+      if (current.future.length === 0 || current.batch) return current;
+      return {
+        past: [...current.past, current.present],
+        present: current.future[0],
+        future: current.future.slice(1),
+        batch: null,
+      };
+    });
+  }, []);
+
+  const beginBatch = useCallback(() => {
+    setState(current => current.batch ? current : { ...current, batch: 'open' });
+  }, []);
+
+  const endBatch = useCallback(() => {
+    setState(current => {
+      if (!current.batch) return current;
+      const start = current.past[current.past.length - 1];
+      if (current.batch === 'recorded' && isEqual(start, current.present)) {
+        return { ...current, past: current.past.slice(0, -1), present: start, batch: null };
+      }
+      return { ...current, batch: null };
+    });
+  }, [isEqual]);
+
+  return {
+    present: state.present,
+    set,
+    reset,
+    undo,
+    redo,
+    beginBatch,
+    endBatch,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+}
@@ -0,0 +1,73 @@
+import { useState, useCallback, useMemo } from 'react';
+
+// Where the image is drawn inside its container, in pixels
+export interface RenderRect {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Screen = translate + scale * fitted position, so scale 1 with no translation is the fitted image.
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// Keeps the zoomed image covering the area the fitted image occupies, so it can never be panned out of view.
+const clampView = (view: ViewTransform, base: RenderRect): ViewTransform => {
+  const scale = clamp(view.scale, MIN_ZOOM, MAX_ZOOM);
+  const x = clamp(view.x, (base.offsetX + base.width) * (1 - scale), base.offsetX * (1 - scale));
+  const y = clamp(view.y, (base.offsetY + base.height) * (1 - scale), base.offsetY * (1 - scale));
+  return { scale, x, y };
+};
+
+export function useZoomPan(base: RenderRect) {
+  const [rawView, setRawView] = useState<ViewTransform>(IDENTITY);
+  const view = useMemo(() => clampView(rawView, base), [rawView, base]);
+
+  const viewRect = useMemo<RenderRect>(() => ({
+    width: base.width * view.scale,
+    height: base.height * view.scale,
+    offsetX: view.x + view.scale * base.offsetX,
+    offsetY: view.y + view.scale * base.offsetY,
+  }), [base, view]);
+
+  const setView = useCallback((next: ViewTransform) => {
+    setRawView(clampView(next, base));
+  }, [base]);
+
+  // Zooms by a factor while keeping the container point (px, py) fixed on screen.
+  const zoomBy = useCallback((factor: number, px: number, py: number) => {
+    setRawView(current => {
+      const from = clampView(current, base);
+      const scale = clamp(from.scale * factor, MIN_ZOOM, MAX_ZOOM);
+      const ratio = scale / from.scale;
+      return clampView({ scale, x: px - (px - from.x) * ratio, y: py - (py - from.y) * ratio }, base);
+    });
+  }, [base]);
+
+  // Pans so the normalized image point (u, v) sits at the container point (px, py).
+  const centerOn = useCallback((u: number, v: number, px: number, py: number) => {
+    setRawView(current => {
+      const from = clampView(current, base);
+      return clampView({
+        scale: from.scale,
+        x: px - from.scale * (base.offsetX + u * base.width),
+        y: py - from.scale * (base.offsetY + v * base.height),
+      }, base);
+    });
+  }, [base]);
+
+  const resetView = useCallback(() => setRawView(IDENTITY), []);
+
+  return { view, viewRect, setView, zoomBy, centerOn, resetView };
+}
@@ -0,0 +1,57 @@
+const DB_NAME = 'gemini-calorie-counter';
+const DB_VERSION = 3;
+
+export const MEALS_STORE = 'meals';
+export const PRODUCTS_STORE = 'products';
+export const RESPONSE_CACHE_STORE = 'responses';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEALS_STORE)) {
+          const meals = db.createObjectStore(MEALS_STORE, { keyPath: 'id' });
+          meals.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
+          db.createObjectStore(PRODUCTS_STORE, { keyPath: 'barcode' });
+        }
+        if (!db.objectStoreNames.contains(RESPONSE_CACHE_STORE)) {
+          const responses = db.createObjectStore(RESPONSE_CACHE_STORE, { keyPath: 'key' });
+          responses.createIndex('lastUsedAt', 'lastUsedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open the local database.'));
+    }).catch(error => {
+      // Allow a later call to retry instead of caching the failure forever.
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Runs a single request against a store and resolves once its transaction has committed.
+export async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The database transaction was aborted.'));
+  });
+}
@@ -0,0 +1,63 @@
+import { TimeoutError } from '../utils/retry';
+
+// Errors raised for responses from the vision provider, with messages that can be shown to the user as-is.
+
+export type VisionRequest = 'detection' | 'identification' | 'label' | 'refinement';
+
+const REQUEST_DESCRIPTIONS: Record<VisionRequest, string> = {
+  detection: 'detecting food',
+  identification: 'identifying food',
+  label: 'reading the label',
+  refinement: 'answering your message',
+};
+
+export class VisionResponseError extends Error {
+  readonly request: VisionRequest;
+  readonly issues: string[]; // what was wrong with the response, for logs and diagnostics
+
+  constructor(message: string, request: VisionRequest, issues: string[] = []) {
+    super(message);
+    this.name = 'VisionResponseError';
+    this.request = request;
+    this.issues = issues;
+  }
+}
+
+// The response was not JSON, or not the expected kind of JSON value at all.
+export class MalformedResponseError extends VisionResponseError {
+  constructor(request: VisionRequest, issues: string[] = []) {
+    super(`The model returned a response that could not be read while ${REQUEST_DESCRIPTIONS[request]}. Please try again.`, request, issues);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// The response was well-formed but nothing in it was usable.
+export class InvalidResponseError extends VisionResponseError {
+  constructor(request: VisionRequest, detail: string, issues: string[] = []) {
+    super(`The model's answer while ${REQUEST_DESCRIPTIONS[request]} was unusable: ${detail} Please try again.`, request, issues);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+// HTTP status of a failed API call, when the client library reports one.
+export const getHttpStatus = (err: unknown): number | undefined => {
+  const status = typeof err === 'object' && err !== null ? (err as { status?: unknown }).status : undefined;
+  return typeof status === 'number' ? status : undefined;
+};
+
+// Rate limiting, server errors and dropped connections are worth retrying; bad requests and bad answers are not.
+export const isTransientError = (err: unknown): boolean => {
+  const status = getHttpStatus(err);
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+  return err instanceof TypeError; // fetch rejects with a TypeError on network failures
+};
+
+// Vision errors carry a message written for the user; anything else gets the caller's generic message.
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  if (err instanceof VisionResponseError) return err.message;
+  if (err instanceof TimeoutError) return 'The model took too long to respond. Please try again.';
+  const status = getHttpStatus(err);
+  if (status === 429) return 'The model is receiving too many requests right now. Please wait a moment and try again.';
+  if (status !== undefined && status >= 500) return 'The model service is temporarily unavailable. Please try again later.';
+  return fallback;
+};
@@ -0,0 +1,206 @@
+import type { MealItem, UserBox, VisionProvider } from '../types';
+import { MACRO_KEYS, MACRO_UNITS, countsTowardTotals, formatMacro, getEatenCalories, getMealTotals } from '../utils/nutrition';
+import { loadImage } from '../utils/image';
+
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface MealExportInput {
+  imageDimensions: { width: number; height: number } | null; // null for meals logged without a photo
+  boxes: UserBox[];
+  extraItems: MealItem[];
+  timestamp: number;
+  provider: Pick<VisionProvider, 'name' | 'model'>;
+}
+
+// Matches the colours of the result labels drawn by ImageAnalysisDisplay
+const BOX_COLOR = '#6366f1';
+const NOT_FOOD_COLOR = '#9ca3af';
+const LABEL_BACKGROUND = '#4f46e5';
+const LABEL_TEXT = '#ffffff';
+const LABEL_SUBTEXT = '#e0e7ff';
+
+interface LabelRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const overlaps = (a: LabelRect, b: LabelRect) =>
+  !(a.x + a.width < b.x || a.x > b.x + b.width || a.y + a.height < b.y || a.y > b.y + b.height);
+
+const labelLines = (item: MealItem): string[] => {
+  const lines = [`${item.name} - ${item.calories} kcal${item.userProvided ? ' ✎' : ''}`];
+  if (item.macros) {
+    lines.push(`P ${formatMacro('protein', item.macros.protein)} · C ${formatMacro('carbohydrate', item.macros.carbohydrate)} · F ${formatMacro('fat', item.macros.fat)}`);
+  }
+  return lines;
+};
+
+// Renders the image at its natural size with the boxes and result labels burned in.
+export async function renderAnnotatedImage(imageUrl: string, boxes: UserBox[]): Promise<Blob> {
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context.');
+  }
+  ctx.drawImage(img, 0, 0);
+
+  const unit = Math.max(1, Math.min(canvas.width, canvas.height) / 400);
+  const fontSize = Math.round(12 * unit);
+  const subFontSize = Math.round(10 * unit);
+  const padding = { x: 12 * unit, y: 6 * unit };
+  const arrow = 4 * unit;
+
+  for (const box of boxes) {
+    const { x, y, width, height } = box.boundingBox;
+    ctx.save();
+    ctx.lineWidth = 2 * unit;
+    ctx.strokeStyle = box.notFood ? NOT_FOOD_COLOR : BOX_COLOR;
+    if (box.notFood) ctx.setLineDash([6 * unit, 4 * unit]);
+    if (box.polygon) {
+      ctx.beginPath();
+      box.polygon.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x * canvas.width, point.y * canvas.height);
+        else ctx.lineTo(point.x * canvas.width, point.y * canvas.height);
+      });
+      ctx.closePath();
+      ctx.stroke();
+    } else {
+      ctx.strokeRect(x * canvas.width, y * canvas.height, width * canvas.width, height * canvas.height);
+    }
+    ctx.restore();
+  }
+
+  // Same placement rule as the on-screen labels: top boxes first, move a label up until it is clear.
+  const placed: LabelRect[] = [];
+  const labelled = boxes
+    .filter(box => !box.notFood && box.name && box.calories !== undefined)
+    .sort((a, b) => a.boundingBox.y - b.boundingBox.y);
+
+  for (const box of labelled) {
+    const lines = labelLines(box);
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    let textWidth = ctx.measureText(lines[0]).width;
+    if (lines[1]) {
+      ctx.font = `500 ${subFontSize}px sans-serif`;
+      textWidth = Math.max(textWidth, ctx.measureText(lines[1]).width);
+    }
+    const labelWidth = textWidth + padding.x * 2;
+    const labelHeight = fontSize * 1.25 + (lines[1] ? subFontSize * 1.25 : 0) + padding.y * 2;
+    const anchorX = (box.boundingBox.x + box.boundingBox.width / 2) * canvas.width;
+    const anchorY = box.boundingBox.y * canvas.height - 8 * unit;
+
+    const rect: LabelRect = {
+      x: Math.max(0, Math.min(canvas.width - labelWidth, anchorX - labelWidth / 2)),
+      y: anchorY - labelHeight,
+      width: labelWidth,
+      height: labelHeight,
+    };
+    for (let attempts = 0; attempts < 30 && placed.some(other => overlaps(rect, other)); attempts++) {
+      rect.y -= 5 * unit;
+    }
+    rect.y = Math.max(0, rect.y);
+    placed.push(rect);
+
+    ctx.fillStyle = LABEL_BACKGROUND;
+    ctx.beginPath();
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, 6 * unit);
+    ctx.fill();
+    if (rect.y + rect.height < anchorY + arrow) {
+      ctx.beginPath();
+      ctx.moveTo(anchorX - arrow, rect.y + rect.height);
+      ctx.lineTo(anchorX + arrow, rect.y + rect.height);
+      ctx.lineTo(anchorX, rect.y + rect.height + arrow);
+      ctx.fill();
+    }
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    const centerX = rect.x + rect.width / 2;
+    ctx.fillStyle = LABEL_TEXT;
+    ctx.font = `bold ${fontSize}px sans-serif`;
+    ctx.fillText(lines[0], centerX, rect.y + padding.y);
+    if (lines[1]) {
+      ctx.fillStyle = LABEL_SUBTEXT;
+      ctx.font = `500 ${subFontSize}px sans-serif`;
+      ctx.fillText(lines[1], centerX, rect.y + padding.y + fontSize * 1.25);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the annotated image.')), 'image/png');
+  });
+}
+
+export function buildMealJson({ imageDimensions, boxes, extraItems, timestamp, provider }: MealExportInput): string {
+  const { calories, macros } = getMealTotals([...boxes, ...extraItems]);
+  return JSON.stringify({
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    mealTime: new Date(timestamp).toISOString(),
+    model: { provider: provider.name, name: provider.model },
+    image: imageDimensions,
+    boxes,
+    extraItems,
+    totals: { calories, macros },
+  }, null, 2);
+}
+
+// Quotes fields that need it and defuses values a spreadsheet would evaluate as a formula.
+const csvField = (value: string | number | boolean | undefined): string => {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const round = (value: number | undefined, digits = 1) =>
+  value === undefined ? undefined : Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function buildItemsCsv(boxes: UserBox[], extraItems: MealItem[]): string {
+  const header = [
+    'id', 'name', 'counted', 'calories', 'portion', 'portion_unit', 'household_measure',
+    ...MACRO_KEYS.map(key => `${key}_${MACRO_UNITS[key]}`),
+    'box_x', 'box_y', 'box_width', 'box_height', 'user_provided', 'not_food', 'database_match',
+    'remaining_fraction', 'eaten_calories',
+  ];
+  const items: (MealItem & Partial<Pick<UserBox, 'boundingBox'>>)[] = [...boxes, ...extraItems];
+  const rows = items.map(item => [
+    item.id,
+    item.name,
+    countsTowardTotals(item),
+    item.calories,
+    round(item.portion?.amount),
+    item.portion?.unit,
+    item.portion?.householdMeasure,
+    ...MACRO_KEYS.map(key => round(item.macros?.[key])),
+    round(item.boundingBox?.x, 4),
+    round(item.boundingBox?.y, 4),
+    round(item.boundingBox?.width, 4),
+    round(item.boundingBox?.height, 4),
+    !!item.userProvided,
+    !!item.notFood,
+    item.foodMatch?.name,
+    round(item.leftover?.fraction, 2),
+    item.calories !== undefined ? getEatenCalories(item) : undefined,
+  ]);
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick so the download has started before the URL goes away.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
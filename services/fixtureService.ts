@@ -0,0 +1,158 @@
+import type { AlternativeCandidate, AnalysisResult, ChatMessage, DetectionResult, Macros, MealItem, MealUpdate, NutritionLabel, Portion, RefinementResult, UserBox, VisionProvider } from '../types';
+import { sleep } from '../utils/retry';
+import { scaleMacros } from '../utils/nutrition';
+
+export interface FixtureFood {
+  name: string;
+  calories: number;
+  macros: Macros;
+  portion: Portion;
+  confidence?: number;
+  alternatives?: AlternativeCandidate[];
+}
+
+export interface FixtureData {
+  detection: DetectionResult;
+  foods: FixtureFood[];
+  label: NutritionLabel;
+}
+
+// A recorded detection of a typical dinner plate, used when no live model is configured.
+export const DEFAULT_FIXTURES: FixtureData = {
+  detection: [
+    { boundingBox: { x: 0.08, y: 0.18, width: 0.38, height: 0.42 } },
+    { boundingBox: { x: 0.52, y: 0.14, width: 0.34, height: 0.36 } },
+    {
+      boundingBox: { x: 0.3, y: 0.58, width: 0.4, height: 0.3 },
+      polygon: [{ x: 0.3, y: 0.7 }, { x: 0.45, y: 0.58 }, { x: 0.7, y: 0.64 }, { x: 0.66, y: 0.88 }, { x: 0.38, y: 0.86 }],
+    },
+  ],
+  foods: [
+    { name: 'grilled chicken breast', calories: 280, macros: { protein: 52.8, carbohydrate: 0, fat: 6.1, fiber: 0, sugar: 0, sodium: 126 }, portion: { amount: 170, unit: 'g', householdMeasure: '1 breast' } },
+    {
+      name: 'steamed white rice', calories: 205, macros: { protein: 4.3, carbohydrate: 44.5, fat: 0.4, fiber: 0.6, sugar: 0.1, sodium: 2 }, portion: { amount: 158, unit: 'g', householdMeasure: '1 cup' },
+      confidence: 0.55,
+      alternatives: [
+        { name: 'cauliflower rice', calories: 40, macros: { protein: 3, carbohydrate: 8, fat: 0.4, fiber: 3.2, sugar: 3, sodium: 47 }, confidence: 0.3 },
+        { name: 'jasmine rice', calories: 210, macros: { protein: 4.1, carbohydrate: 45.8, fat: 0.5, fiber: 0.5, sugar: 0.1, sodium: 3 }, confidence: 0.15 },
+      ],
+    },
+    { name: 'broccoli', calories: 55, macros: { protein: 3.7, carbohydrate: 11.2, fat: 0.6, fiber: 5.1, sugar: 2.2, sodium: 64 }, portion: { amount: 160, unit: 'g', householdMeasure: '1 1/2 cups' } },
+    { name: 'roasted potatoes', calories: 160, macros: { protein: 3.4, carbohydrate: 27.2, fat: 4.6, fiber: 3.1, sugar: 1.3, sodium: 290 }, portion: { amount: 150, unit: 'g', householdMeasure: '1 cup' } },
+    { name: 'mixed green salad', calories: 35, macros: { protein: 2.1, carbohydrate: 6.4, fat: 0.4, fiber: 2.8, sugar: 2.6, sodium: 45 }, portion: { amount: 85, unit: 'g', householdMeasure: '2 cups' } },
+    { name: 'salmon fillet', calories: 367, macros: { protein: 39.3, carbohydrate: 0, fat: 22, fiber: 0, sugar: 0, sodium: 109 }, portion: { amount: 178, unit: 'g', householdMeasure: '1 fillet' } },
+    {
+      name: 'pasta with tomato sauce', calories: 320, macros: { protein: 11.2, carbohydrate: 58.6, fat: 4.8, fiber: 4.2, sugar: 8.9, sodium: 540 }, portion: { amount: 250, unit: 'g', householdMeasure: '1 plate' },
+      confidence: 0.8,
+      alternatives: [
+        { name: 'whole wheat pasta with tomato sauce', calories: 300, macros: { protein: 12.5, carbohydrate: 55, fat: 4.6, fiber: 7.8, sugar: 8.4, sodium: 530 }, confidence: 0.15 },
+      ],
+    },
+    { name: 'fried egg', calories: 90, macros: { protein: 6.3, carbohydrate: 0.4, fat: 6.8, fiber: 0, sugar: 0.2, sodium: 95 }, portion: { amount: 46, unit: 'g', householdMeasure: '1 large egg' } },
+  ],
+  label: {
+    productName: 'granola bar',
+    servingSize: { amount: 40, unit: 'g', householdMeasure: '1 bar' },
+    servingsPerContainer: 6,
+    calories: 190,
+    macros: { protein: 4, carbohydrate: 26, fat: 8, fiber: 2, sugar: 11, sodium: 95 },
+  },
+};
+
+// Hidden ingredients the offline refinement recognizes, one typical serving each
+const HIDDEN_EXTRAS: FixtureFood[] = [
+  { name: 'butter', calories: 102, macros: { protein: 0.1, carbohydrate: 0, fat: 11.5, fiber: 0, sugar: 0, sodium: 91 }, portion: { amount: 14, unit: 'g', householdMeasure: '1 tbsp' } },
+  { name: 'olive oil', calories: 119, macros: { protein: 0, carbohydrate: 0, fat: 13.5, fiber: 0, sugar: 0, sodium: 0 }, portion: { amount: 13.5, unit: 'g', householdMeasure: '1 tbsp' } },
+  { name: 'dressing', calories: 73, macros: { protein: 0.1, carbohydrate: 0.9, fat: 7.7, fiber: 0, sugar: 0.8, sodium: 140 }, portion: { amount: 15, unit: 'g', householdMeasure: '1 tbsp' } },
+  { name: 'sugar', calories: 16, macros: { protein: 0, carbohydrate: 4.2, fat: 0, fiber: 0, sugar: 4.2, sodium: 0 }, portion: { amount: 4.2, unit: 'g', householdMeasure: '1 tsp' } },
+];
+
+// A keyword stand-in for the model: an item is picked by a word of its name, "half" or "a quarter" scales it,
+// "didn't eat" or "no" removes it, "it's ..." renames it, and known hidden ingredients are added.
+function refineFromKeywords(items: MealItem[], messages: ChatMessage[]): RefinementResult {
+  const text = [...messages].reverse().find(message => message.role === 'user')?.text.toLowerCase() ?? '';
+  const item = items.find(candidate => candidate.name?.toLowerCase().split(/\s+/).some(word => word.length > 3 && text.includes(word)))
+    ?? (items.length === 1 ? items[0] : undefined);
+  const updates: MealUpdate[] = HIDDEN_EXTRAS.filter(extra => text.includes(extra.name)).map(extra => ({
+    action: 'add',
+    name: extra.name,
+    calories: extra.calories,
+    macros: { ...extra.macros },
+    portion: { ...extra.portion },
+    reason: `You mentioned ${extra.name}, which the photo cannot show.`,
+  }));
+
+  const fraction = /\bhalf\b/.test(text) ? 0.5 : /\bquarter\b/.test(text) ? 0.25 : undefined;
+  const rename = text.match(/\b(?:it's|it is|that's|that is)\s+(?:actually\s+)?(?:an?\s+)?([a-z][a-z\s-]*)/);
+  if (item && fraction !== undefined && item.calories !== undefined) {
+    updates.push({
+      action: 'recalorie',
+      id: item.id,
+      calories: Math.round(item.calories * fraction),
+      macros: item.macros ? scaleMacros(item.macros, fraction) : undefined,
+      portion: item.portion
+        ? { ...item.portion, amount: item.portion.amount * fraction, householdMeasure: `${fraction === 0.5 ? 'half' : 'a quarter'} of ${item.portion.householdMeasure}` }
+        : undefined,
+      reason: `You had ${fraction === 0.5 ? 'half' : 'a quarter'} of the ${item.name}.`,
+    });
+  } else if (item && /\b(didn't|did not|never) (eat|have)\b|\bno\b/.test(text) && updates.length === 0) {
+    updates.push({ action: 'remove', id: item.id, reason: `You did not have the ${item.name}.` });
+  } else if (item && rename) {
+    updates.push({ action: 'rename', id: item.id, name: rename[1].trim(), reason: `You said it is ${rename[1].trim()}.` });
+  }
+
+  return {
+    reply: updates.length > 0
+      ? `Here ${updates.length === 1 ? 'is a change' : 'are some changes'} based on your message. Accept the ones that look right.`
+      : 'I could not tell what to change. Try naming the item, for example "I only had half the rice".',
+    updates,
+  };
+}
+
+// Small, stable string hash so the same box geometry always maps to the same food.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export function createFixtureProvider(fixtures: FixtureData = DEFAULT_FIXTURES, latencyMs = 400): VisionProvider {
+  return {
+    name: 'fixture',
+    model: 'local-fixtures',
+    detectFoodItems: async (_base64ImageData: string, _mimeType: string, signal?: AbortSignal): Promise<DetectionResult> => {
+      await sleep(latencyMs, signal);
+      return fixtures.detection.map(item => ({ boundingBox: { ...item.boundingBox }, polygon: item.polygon?.map(point => ({ ...point })) }));
+    },
+    identifyItemsInBoxes: async (_base64ImageData: string, _mimeType: string, boxes: UserBox[], signal?: AbortSignal): Promise<AnalysisResult> => {
+      await sleep(latencyMs, signal);
+      if (fixtures.foods.length === 0) return [];
+      return boxes.map(({ id, boundingBox }) => {
+        const { x, y, width, height } = boundingBox;
+        const key = [x, y, width, height].map(v => v.toFixed(3)).join(',');
+        const food = fixtures.foods[hashString(key) % fixtures.foods.length];
+        return {
+          id,
+          name: food.name,
+          calories: food.calories,
+          macros: { ...food.macros },
+          portion: { ...food.portion },
+          energyDensity: Math.round(food.calories * 1000 / food.portion.amount) / 10,
+          confidence: food.confidence ?? 0.9,
+          alternatives: food.alternatives?.map(alternative => ({ ...alternative, macros: { ...alternative.macros } })) ?? [],
+        };
+      });
+    },
+    readNutritionLabel: async (_base64ImageData: string, _mimeType: string, signal?: AbortSignal): Promise<NutritionLabel> => {
+      await sleep(latencyMs, signal);
+      const { label } = fixtures;
+      return { ...label, servingSize: { ...label.servingSize }, macros: { ...label.macros } };
+    },
+    refineMeal: async (_base64ImageData: string, _mimeType: string, items: MealItem[], messages: ChatMessage[], signal?: AbortSignal): Promise<RefinementResult> => {
+      await sleep(latencyMs, signal);
+      return refineFromKeywords(items, messages);
+    },
+  };
+}
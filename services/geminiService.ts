@@ -1,13 +1,10 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import type { AnalysisResult, UserBox, DetectionResult } from '../types';
+import type { ChatMessage, MealItem, UserBox, VisionProvider } from '../types';
+import { parseJsonResponse } from './responseValidation';
+import { MalformedResponseError } from './errors';
 
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
 
 const boundingBoxSchema = {
     type: Type.OBJECT,
@@ -20,20 +17,36 @@ const boundingBoxSchema = {
     required: ["x", "y", "width", "height"],
 };
 
+const pointSchema = {
+    type: Type.OBJECT,
+    properties: {
+      x: { type: Type.NUMBER },
+      y: { type: Type.NUMBER },
+    },
+    required: ["x", "y"],
+};
+
 const detectedItemSchema = {
     type: Type.OBJECT,
     properties: {
       boundingBox: boundingBoxSchema,
+      polygon: {
+        type: Type.ARRAY,
+        description: "Optional outline of the item as normalized vertices, for items that overlap others or are far from rectangular.",
+        items: pointSchema,
+      },
     },
     required: ["boundingBox"],
 };
 
-export async function detectFoodItems(base64ImageData: string, mimeType: string): Promise<DetectionResult> {
+async function detectFoodItems(ai: GoogleGenAI, model: string, base64ImageData: string, mimeType: string, signal?: AbortSignal): Promise<unknown> {
     const prompt = `
       Analyze the provided image to locate all distinct food items.
       For each item found, provide a bounding box that tightly encloses it.
       The bounding box should be defined by normalized coordinates (x, y, width, height) where (x, y) is the top-left corner.
       Return a JSON array of objects, where each object contains a 'boundingBox' property.
+      When an item overlaps another item or its box would include much of something else, for example a steak
+      lying across mashed potatoes, also give a 'polygon': 3 to 16 normalized (x, y) vertices outlining only that item.
       If no food items are found, return an empty array.
     `;
   
@@ -44,7 +57,7 @@ export async function detectFoodItems(base64ImageData: string, mimeType: string)
     const textPart = { text: prompt };
   
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model,
       contents: { parts: [imagePart, textPart] },
       config: {
         responseMimeType: "application/json",
@@ -52,6 +65,7 @@ export async function detectFoodItems(base64ImageData: string, mimeType: string)
           type: Type.ARRAY,
           items: detectedItemSchema,
         },
+        abortSignal: signal,
       },
     });
   
@@ -60,16 +74,46 @@ export async function detectFoodItems(base64ImageData: string, mimeType: string)
       return [];
     }
   
-    try {
-      const parsedJson = JSON.parse(jsonString);
-      return parsedJson as DetectionResult;
-    } catch (error) {
-      console.error("Failed to parse JSON response for detection:", error);
-      throw new Error("The API returned an invalid response format during detection.");
-    }
+    return parseJsonResponse(jsonString, 'detection');
 }
 
 
+const macrosSchema = {
+  type: Type.OBJECT,
+  description: "Estimated macronutrient content of the food item as served.",
+  properties: {
+    protein: { type: Type.NUMBER, description: "Protein in grams." },
+    carbohydrate: { type: Type.NUMBER, description: "Total carbohydrate in grams." },
+    fat: { type: Type.NUMBER, description: "Total fat in grams." },
+    fiber: { type: Type.NUMBER, description: "Dietary fiber in grams." },
+    sugar: { type: Type.NUMBER, description: "Total sugars in grams." },
+    sodium: { type: Type.NUMBER, description: "Sodium in milligrams." },
+  },
+  required: ["protein", "carbohydrate", "fat", "fiber", "sugar", "sodium"],
+};
+
+const portionSchema = {
+  type: Type.OBJECT,
+  description: "The estimated portion of the food item visible in the box.",
+  properties: {
+    amount: { type: Type.NUMBER, description: "Portion size in grams for solids or millilitres for liquids." },
+    unit: { type: Type.STRING, enum: ["g", "ml"], description: "Unit of the amount." },
+    householdMeasure: { type: Type.STRING, description: "The portion as a household measure, e.g. '1 cup' or '2 slices'." },
+  },
+  required: ["amount", "unit", "householdMeasure"],
+};
+
+const alternativeSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "Another food the item could be." },
+    calories: { type: Type.INTEGER, description: "Estimated calories if the item were this food, for the same portion." },
+    macros: macrosSchema,
+    confidence: { type: Type.NUMBER, description: "Probability from 0 to 1 that the item is this food." },
+  },
+  required: ["name", "calories", "macros", "confidence"],
+};
+
 const identifiedItemSchema = {
   type: Type.OBJECT,
   properties: {
@@ -85,20 +129,45 @@ const identifiedItemSchema = {
       type: Type.INTEGER,
       description: "The estimated number of calories for this food item.",
     },
+    macros: macrosSchema,
+    portion: portionSchema,
+    energyDensity: {
+      type: Type.NUMBER,
+      description: "Energy density of the food in kcal per 100 g (or per 100 ml for liquids).",
+    },
+    confidence: {
+      type: Type.NUMBER,
+      description: "Probability from 0 to 1 that the name is correct.",
+    },
+    alternatives: {
+      type: Type.ARRAY,
+      description: "Up to 3 other foods the item could be, most likely first. Empty when there are no plausible look-alikes.",
+      items: alternativeSchema,
+    },
   },
-  required: ["id", "name", "calories"],
+  required: ["id", "name", "calories", "macros", "portion", "energyDensity", "confidence", "alternatives"],
 };
 
-export async function identifyItemsInBoxes(base64ImageData: string, mimeType: string, boxes: UserBox[]): Promise<AnalysisResult> {
-  const boxesForPrompt = boxes.map(({ id, boundingBox }) => ({ id, boundingBox }));
+async function identifyItemsInBoxes(ai: GoogleGenAI, model: string, base64ImageData: string, mimeType: string, boxes: UserBox[], signal?: AbortSignal): Promise<unknown> {
+  const boxesForPrompt = boxes.map(({ id, boundingBox, polygon }) => polygon ? { id, boundingBox, polygon } : { id, boundingBox });
   
   const prompt = `
     Analyze the food items within the specific regions of this image that I provide.
     I will give you a JSON array of objects, where each object has an 'id' and a 'boundingBox'.
     The boundingBox coordinates are normalized (0-1).
+    Some objects also have a 'polygon', a list of normalized (x, y) vertices outlining the region. For those,
+    the region is only the inside of the polygon: identify and estimate only the food inside it, and ignore
+    anything inside the bounding box but outside the polygon, even if it is another food.
     For each object, identify the single main food item inside its corresponding bounding box.
     Return a JSON array where each element contains the original 'id', the identified food 'name',
-    and your best estimate for the 'calories'.
+    your best estimate for the 'calories', and a 'macros' breakdown with protein, carbohydrate, fat,
+    fiber and sugar in grams and sodium in milligrams.
+    Also estimate the 'portion' visible in the box (an 'amount' in grams, or millilitres for liquids,
+    its 'unit', and a 'householdMeasure' such as "1 cup") and the food's 'energyDensity' in kcal per 100 g or ml.
+    The calories and macros must describe that portion, so calories equal energyDensity * amount / 100.
+    Give your 'confidence' (0-1) that the name is correct. When the item could be a look-alike, such as
+    cauliflower rice instead of rice or diet instead of regular soda, list up to 3 'alternatives', most likely
+    first, each with its own calories, macros and confidence for the same portion.
     If a box contains no identifiable food, omit it from the result array.
     Here are the bounding boxes: ${JSON.stringify(boxesForPrompt)}
   `;
@@ -113,7 +182,7 @@ export async function identifyItemsInBoxes(base64ImageData: string, mimeType: st
   const textPart = { text: prompt };
 
   const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
+    model,
     contents: { parts: [imagePart, textPart] },
     config: {
       responseMimeType: "application/json",
@@ -121,6 +190,7 @@ export async function identifyItemsInBoxes(base64ImageData: string, mimeType: st
         type: Type.ARRAY,
         items: identifiedItemSchema,
       },
+      abortSignal: signal,
     },
   });
 
@@ -129,11 +199,162 @@ export async function identifyItemsInBoxes(base64ImageData: string, mimeType: st
     return [];
   }
   
-  try {
-    const parsedJson = JSON.parse(jsonString);
-    return parsedJson as AnalysisResult;
-  } catch (error) {
-    console.error("Failed to parse JSON response:", error);
-    throw new Error("The API returned an invalid response format.");
+  return parseJsonResponse(jsonString, 'identification');
+}
+
+const nutritionLabelSchema = {
+  type: Type.OBJECT,
+  properties: {
+    productName: {
+      type: Type.STRING,
+      description: "The product name if it is visible on the package, otherwise an empty string.",
+    },
+    servingSize: {
+      type: Type.OBJECT,
+      description: "The serving size printed on the label.",
+      properties: {
+        amount: { type: Type.NUMBER, description: "Serving size in grams for solids or millilitres for liquids." },
+        unit: { type: Type.STRING, enum: ["g", "ml"], description: "Unit of the amount." },
+        householdMeasure: { type: Type.STRING, description: "The serving as printed in household terms, e.g. '2/3 cup' or '1 bar'." },
+      },
+      required: ["amount", "unit", "householdMeasure"],
+    },
+    servingsPerContainer: {
+      type: Type.NUMBER,
+      description: "Servings per container, or 0 if the label does not say.",
+    },
+    calories: {
+      type: Type.NUMBER,
+      description: "Energy per serving in kcal.",
+    },
+    macros: {
+      ...macrosSchema,
+      description: "Nutrients per serving as printed on the label.",
+    },
+  },
+  required: ["productName", "servingSize", "servingsPerContainer", "calories", "macros"],
+};
+
+async function readNutritionLabel(ai: GoogleGenAI, model: string, base64ImageData: string, mimeType: string, signal?: AbortSignal): Promise<unknown> {
+  const prompt = `
+    This image shows the Nutrition Facts (or nutrition information) panel of a packaged food.
+    Read the label and return the serving size, the servings per container and the values for one serving:
+    calories in kcal, protein, total carbohydrate, total fat, dietary fiber and total sugars in grams, and sodium in milligrams.
+    If the label only lists values per 100 g or 100 ml, convert them to the stated serving size.
+    If energy is only given in kJ, convert it to kcal by dividing by 4.184.
+    Use 0 for nutrients the label does not list. Do not estimate values that are not printed.
+  `;
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: { parts: [{ inlineData: { data: base64ImageData, mimeType } }, { text: prompt }] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: nutritionLabelSchema,
+      abortSignal: signal,
+    },
+  });
+
+  const jsonString = response.text.trim();
+  if (!jsonString) {
+    throw new MalformedResponseError('label', ['empty response']);
+  }
+  return parseJsonResponse(jsonString, 'label');
+}
+
+const mealUpdateSchema = {
+  type: Type.OBJECT,
+  properties: {
+    action: { type: Type.STRING, enum: ["rename", "recalorie", "add", "remove"], description: "The kind of change." },
+    id: { type: Type.STRING, description: "The id of the item to change. Omit for 'add'." },
+    name: { type: Type.STRING, description: "The new name for 'rename', or the name of the item for 'add'." },
+    calories: { type: Type.INTEGER, description: "Calories of the item after the change." },
+    macros: macrosSchema,
+    portion: portionSchema,
+    reason: { type: Type.STRING, description: "Short explanation of the change for the user." },
+  },
+  required: ["action", "reason"],
+};
+
+const refinementSchema = {
+  type: Type.OBJECT,
+  properties: {
+    reply: { type: Type.STRING, description: "A short answer to the user's latest message." },
+    updates: { type: Type.ARRAY, items: mealUpdateSchema },
+  },
+  required: ["reply", "updates"],
+};
+
+async function refineMeal(ai: GoogleGenAI, model: string, base64ImageData: string, mimeType: string, items: MealItem[], messages: ChatMessage[], signal?: AbortSignal): Promise<unknown> {
+  const itemsForPrompt = items.map(item => ({
+    id: item.id,
+    name: item.name,
+    calories: item.calories,
+    portion: item.portion,
+    macros: item.macros,
+    boundingBox: 'boundingBox' in item ? (item as UserBox).boundingBox : undefined,
+  }));
+  const conversation = messages.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`).join('\n');
+
+  const prompt = `
+    You estimated the calories of the meal in this image. The user is now telling you things the photo cannot show.
+    These are the meal's current items as a JSON array; items with a 'boundingBox' are visible in the image,
+    the others were added without one: ${JSON.stringify(itemsForPrompt)}
+    Here is the conversation so far, ending with the user's latest message:
+    ${conversation}
+    Answer the latest message with a short 'reply' and list the changes it calls for in 'updates':
+    - 'rename' an item the user says is something else (e.g. brown rice instead of white rice), with its new
+      'name' and the 'calories', 'macros' and 'portion' of the renamed food for the same portion;
+    - 'recalorie' an item whose amount or preparation changes its energy, e.g. when the user only had half of it,
+      with its new 'calories', 'macros' and 'portion';
+    - 'add' a hidden item that is not visible, such as butter in the potatoes or oil used for frying, with its
+      'name', 'calories', 'macros' and 'portion';
+    - 'remove' an item that was not eaten or is not food.
+    Every update except 'add' must give the 'id' of an existing item. Give a short 'reason' for each update.
+    Only propose changes the user's messages support. If nothing needs to change, return an empty 'updates' array.
+  `;
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: { parts: [{ inlineData: { data: base64ImageData, mimeType } }, { text: prompt }] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: refinementSchema,
+      abortSignal: signal,
+    },
+  });
+
+  const jsonString = response.text.trim();
+  if (!jsonString) {
+    throw new MalformedResponseError('refinement', ['empty response']);
   }
+  return parseJsonResponse(jsonString, 'refinement');
+}
+
+export function createGeminiProvider(apiKey: string | undefined, model: string = DEFAULT_GEMINI_MODEL): VisionProvider {
+  let ai: GoogleGenAI | null = null;
+
+  // The client is created on first use so a missing key only fails the request, not the app load.
+  const getClient = () => {
+    if (!apiKey) {
+      throw new Error("API_KEY environment variable is not set");
+    }
+    if (!ai) {
+      ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
+  };
+
+  return {
+    name: 'gemini',
+    model,
+    detectFoodItems: (base64ImageData, mimeType, signal) =>
+      detectFoodItems(getClient(), model, base64ImageData, mimeType, signal),
+    identifyItemsInBoxes: (base64ImageData, mimeType, boxes, signal) =>
+      identifyItemsInBoxes(getClient(), model, base64ImageData, mimeType, boxes, signal),
+    readNutritionLabel: (base64ImageData, mimeType, signal) =>
+      readNutritionLabel(getClient(), model, base64ImageData, mimeType, signal),
+    refineMeal: (base64ImageData, mimeType, items, messages, signal) =>
+      refineMeal(getClient(), model, base64ImageData, mimeType, items, messages, signal),
+  };
 }
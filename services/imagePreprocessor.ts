@@ -0,0 +1,120 @@
+import { readExifFromFile } from '../utils/exif';
+import type { ExifData } from '../utils/exif';
+import { loadImage, readFileAsDataUrl } from '../utils/image';
+
+export interface PreprocessOptions {
+  maxEdge: number; // longest side of the output in pixels
+  maxBytes: number; // budget for the encoded JPEG, before base64
+  minQuality: number;
+  maxQuality: number;
+}
+
+// A photo ready to send to the vision provider: upright, downscaled and JPEG-encoded within the byte budget
+export interface PreprocessedImage {
+  imageUrl: string; // JPEG data URL
+  dimensions: { width: number; height: number }; // of the encoded image, after orientation and scaling
+  byteSize: number;
+  quality: number;
+  capturedAt?: number; // from the photo's EXIF data, when present
+}
+
+const readPositiveInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Defaults come from IMAGE_MAX_EDGE and IMAGE_MAX_KB; callers can override them per use.
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxEdge: readPositiveInteger(process.env.IMAGE_MAX_EDGE, 1600),
+  maxBytes: readPositiveInteger(process.env.IMAGE_MAX_KB, 600) * 1024,
+  minQuality: 0.5,
+  maxQuality: 0.92,
+};
+
+const QUALITY_STEPS = 6;
+// When even the lowest quality is over budget the image is shrunk by this factor and tried again.
+const DOWNSCALE_STEP = 0.8;
+const MIN_EDGE = 320;
+
+// Decodes the photo upright: createImageBitmap and <img> both apply the EXIF orientation themselves, so it is never
+// applied here as well.
+const decodeImage = async (file: Blob): Promise<{ source: CanvasImageSource; width: number; height: number }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+      return { source: bitmap, width: bitmap.width, height: bitmap.height };
+    } catch (err) {
+      console.warn('Could not decode the image as a bitmap, falling back to an image element:', err);
+    }
+  }
+  const img = await loadImage(await readFileAsDataUrl(file));
+  return { source: img, width: img.naturalWidth, height: img.naturalHeight };
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+// Highest quality that fits the budget, found by bisection; null when even the lowest quality is too large.
+const encodeWithinBudget = (canvas: HTMLCanvasElement, options: PreprocessOptions): { imageUrl: string; quality: number } | null => {
+  const encode = (quality: number) => canvas.toDataURL('image/jpeg', quality);
+  const best = encode(options.maxQuality);
+  if (dataUrlBytes(best) <= options.maxBytes) return { imageUrl: best, quality: options.maxQuality };
+
+  let low = options.minQuality;
+  let high = options.maxQuality;
+  const lowest = encode(low);
+  if (dataUrlBytes(lowest) > options.maxBytes) return null;
+  let fit = { imageUrl: lowest, quality: low };
+  for (let i = 0; i < QUALITY_STEPS; i++) {
+    const quality = (low + high) / 2;
+    const imageUrl = encode(quality);
+    if (dataUrlBytes(imageUrl) <= options.maxBytes) {
+      fit = { imageUrl, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  return fit;
+};
+
+export async function preprocessImage(file: File, overrides: Partial<PreprocessOptions> = {}): Promise<PreprocessedImage> {
+  const options = { ...DEFAULT_PREPROCESS_OPTIONS, ...overrides };
+  // EXIF is only read for the capture time; orientation is handled by the decoder.
+  const exif = await readExifFromFile(file).catch((err): ExifData => {
+    console.warn('Could not read photo metadata:', err);
+    return {};
+  });
+  const decoded = await decodeImage(file);
+
+  try {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Could not get canvas context.');
+    }
+
+    let scale = Math.min(1, options.maxEdge / Math.max(decoded.width, decoded.height));
+    for (;;) {
+      const w = Math.max(1, Math.round(decoded.width * scale));
+      const h = Math.max(1, Math.round(decoded.height * scale));
+      canvas.width = w;
+      canvas.height = h;
+      ctx.drawImage(decoded.source, 0, 0, w, h);
+
+      const encoded = encodeWithinBudget(canvas, options);
+      const isSmallest = Math.max(w, h) * DOWNSCALE_STEP < MIN_EDGE;
+      if (encoded || isSmallest) {
+        const result = encoded ?? { imageUrl: canvas.toDataURL('image/jpeg', options.minQuality), quality: options.minQuality };
+        return {
+          ...result,
+          dimensions: { width: canvas.width, height: canvas.height },
+          byteSize: dataUrlBytes(result.imageUrl),
+          capturedAt: exif.capturedAt?.getTime(),
+        };
+      }
+      scale *= DOWNSCALE_STEP;
+    }
+  } finally {
+    if (typeof ImageBitmap !== 'undefined' && decoded.source instanceof ImageBitmap) decoded.source.close();
+  }
+}
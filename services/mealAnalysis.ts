@@ -0,0 +1,66 @@
+import type { DroppedItem, UserBox } from '../types';
+import { detectFoodItems, identifyItemsInBoxes } from './visionService';
+import type { RequestOptions } from './visionService';
+import { loadFoodDatabase, matchToDatabase } from './nutritionDatabase';
+import { applyIdentification, needsIdentification } from '../utils/nutrition';
+import { suppressDuplicates } from '../utils/geometry';
+import type { DedupeThresholds } from '../utils/geometry';
+
+const uuid = () => crypto.randomUUID();
+
+// Boxes from one analysis step, with the model results that failed validation
+export interface BoxAnalysis {
+  boxes: UserBox[];
+  dropped: DroppedItem[];
+  duplicates?: number; // detected boxes removed as duplicates of others
+  unresolved?: string[]; // ids of previously identified boxes that got no new result and kept their old one
+}
+
+export interface DetectOptions extends RequestOptions {
+  dedupe?: DedupeThresholds;
+}
+
+// Detects food and removes boxes that repeat or sit inside another box, which the model often returns for one item.
+export async function detectBoxes(imageUrl: string, options: DetectOptions = {}): Promise<BoxAnalysis> {
+  const { value, dropped } = await detectFoodItems(imageUrl.split(',')[1], 'image/jpeg', options);
+  const { kept, suppressed } = options.dedupe ? suppressDuplicates(value, options.dedupe) : { kept: value, suppressed: [] };
+  return {
+    boxes: kept.map(item => ({ id: uuid(), boundingBox: item.boundingBox, polygon: item.polygon })),
+    dropped,
+    duplicates: suppressed.length,
+  };
+}
+
+export interface IdentifyOptions extends RequestOptions {
+  all?: boolean; // re-identify every box, not just new and moved ones
+}
+
+// Identifies new and moved boxes and matches them to the nutrition database; other boxes keep their results.
+// Boxes the user corrected or marked as not food keep their manual values. A box sent without getting a result is dropped
+// if it was never identified; one identified before keeps its previous result and is reported as unresolved.
+export async function identifyBoxes(imageUrl: string, boxes: UserBox[], options: IdentifyOptions = {}): Promise<BoxAnalysis> {
+  const boxesToIdentify = boxes.filter(box => options.all ? !box.userProvided && !box.notFood : needsIdentification(box));
+  const sentIds = new Set(boxesToIdentify.map(box => box.id));
+  const { value: results, dropped } = boxesToIdentify.length > 0
+    ? await identifyItemsInBoxes(imageUrl.split(',')[1], 'image/jpeg', boxesToIdentify, options)
+    : { value: [], dropped: [] };
+  // Without the database the model's own estimates are still usable.
+  const database = await loadFoodDatabase().catch(err => {
+    console.warn('Could not load the nutrition database:', err);
+    return null;
+  });
+
+  const unresolved: string[] = [];
+  const identified = boxes.flatMap(box => {
+    if (!sentIds.has(box.id)) return [box];
+    const result = results.find(r => r.id === box.id);
+    if (!result) {
+      if (!box.name) return [];
+      unresolved.push(box.id);
+      return [box];
+    }
+    const item = applyIdentification(box, result);
+    return [database ? matchToDatabase(item, database) : item];
+  });
+  return { boxes: identified, dropped, unresolved };
+}
@@ -0,0 +1,27 @@
+import type { MealEntry, MealType } from '../types';
+import { MEALS_STORE, runRequest } from './db';
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// Picks a sensible default meal type from the time of day.
+export function guessMealType(date: Date): MealType {
+  const hour = date.getHours() + date.getMinutes() / 60;
+  if (hour >= 5 && hour < 10.5) return 'breakfast';
+  if (hour >= 11 && hour < 15) return 'lunch';
+  if (hour >= 17 && hour < 21.5) return 'dinner';
+  return 'snack';
+}
+
+export async function saveMeal(entry: MealEntry): Promise<void> {
+  await runRequest(MEALS_STORE, 'readwrite', store => store.put(entry));
+}
+
+// Returns logged meals, newest first.
+export async function listMeals(): Promise<MealEntry[]> {
+  const meals = await runRequest<MealEntry[]>(MEALS_STORE, 'readonly', store => store.index('timestamp').getAll());
+  return meals.reverse();
+}
+
+export async function deleteMeal(id: string): Promise<void> {
+  await runRequest(MEALS_STORE, 'readwrite', store => store.delete(id));
+}
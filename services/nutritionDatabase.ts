@@ -0,0 +1,67 @@
+import type { FoodReference, MealItem } from '../types';
+import { applyFoodMatch } from '../utils/nutrition';
+import { similarity, tokenize } from '../utils/fuzzyMatch';
+
+export interface FoodSearchResult {
+  food: FoodReference;
+  score: number; // 0-1, higher is a closer match
+}
+
+export interface FoodDatabase {
+  source: string;
+  foods: FoodReference[];
+  getById(id: string): FoodReference | undefined;
+  search(query: string, limit?: number): FoodSearchResult[];
+}
+
+// Below this score an identified name is left with the model's own estimate.
+export const AUTO_MATCH_THRESHOLD = 0.75;
+
+const MIN_SEARCH_SCORE = 0.2;
+
+export function createFoodDatabase(foods: FoodReference[], source: string): FoodDatabase {
+  const index = foods.map(food => ({
+    food,
+    names: [food.name, ...food.aliases].map(tokenize),
+  }));
+  const byId = new Map(foods.map(food => [food.id, food]));
+
+  return {
+    source,
+    foods,
+    getById: (id) => byId.get(id),
+    search(query, limit = 8) {
+      const tokens = tokenize(query);
+      return index
+        .map(({ food, names }) => ({
+          food,
+          score: names.reduce((best, name) => Math.max(best, similarity(tokens, name)), 0),
+        }))
+        .filter(result => result.score >= MIN_SEARCH_SCORE)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
+
+let databasePromise: Promise<FoodDatabase> | null = null;
+
+// The dataset is split into its own chunk and only fetched the first time it is needed.
+export function loadFoodDatabase(): Promise<FoodDatabase> {
+  if (!databasePromise) {
+    databasePromise = import('../data/foods')
+      .then(({ FOODS, FOOD_DATABASE_SOURCE }) => createFoodDatabase(FOODS, FOOD_DATABASE_SOURCE))
+      .catch(err => {
+        databasePromise = null;
+        throw err;
+      });
+  }
+  return databasePromise;
+}
+
+// Links an identified item to its closest database entry when the match is confident enough.
+export function matchToDatabase<T extends MealItem>(item: T, database: FoodDatabase): T {
+  if (!item.name || !item.portion) return item;
+  const [best] = database.search(item.name, 1);
+  return best && best.score >= AUTO_MATCH_THRESHOLD ? applyFoodMatch(item, best.food, best.score) : item;
+}
@@ -0,0 +1,30 @@
+import type { Product } from '../types';
+import { PRODUCTS_STORE, runRequest } from './db';
+
+let bundledPromise: Promise<Map<string, Product>> | null = null;
+
+// The bundled table is loaded on first lookup so it stays out of the initial bundle.
+function loadBundledProducts(): Promise<Map<string, Product>> {
+  if (!bundledPromise) {
+    bundledPromise = import('../data/products')
+      .then(({ PRODUCTS }) => new Map(PRODUCTS.map(product => [product.barcode, product])))
+      .catch(err => {
+        bundledPromise = null;
+        throw err;
+      });
+  }
+  return bundledPromise;
+}
+
+// Looks up a packaged product by its normalized 13-digit barcode: products the user added first, then the bundled table.
+export async function findProduct(barcode: string): Promise<Product | undefined> {
+  const saved = await runRequest<Product | undefined>(PRODUCTS_STORE, 'readonly', store => store.get(barcode)).catch(err => {
+    console.warn('Could not read your saved products:', err);
+    return undefined;
+  });
+  return saved ?? (await loadBundledProducts()).get(barcode);
+}
+
+export async function saveProduct(product: Product): Promise<void> {
+  await runRequest(PRODUCTS_STORE, 'readwrite', store => store.put(product));
+}
@@ -0,0 +1,123 @@
+import type { UserBox } from '../types';
+import type { VisionRequest } from './errors';
+import { RESPONSE_CACHE_STORE, openDatabase, runRequest } from './db';
+
+// Everything besides the image that changes what the provider would answer
+export interface CacheKeyParams {
+  request: VisionRequest;
+  provider: string;
+  model: string;
+  promptVersion: number;
+  boxes?: Pick<UserBox, 'boundingBox' | 'polygon'>[];
+}
+
+// A raw provider response, stored before validation so that validation fixes also apply to cached answers
+export interface CachedResponse {
+  key: string;
+  request: VisionRequest;
+  raw: unknown;
+  boxIds?: string[]; // ids the boxes had when the response was fetched, in request order
+  byteSize: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  byteSize: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const readNonNegativeInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// RESPONSE_CACHE_MAX_ENTRIES of 0 turns the cache off; least recently used entries are evicted beyond it.
+const MAX_ENTRIES = readNonNegativeInteger(process.env.RESPONSE_CACHE_MAX_ENTRIES, 200);
+const MAX_AGE_MS = readNonNegativeInteger(process.env.RESPONSE_CACHE_MAX_AGE_DAYS, 30) * DAY_MS;
+
+export const isResponseCacheEnabled = (): boolean =>
+  MAX_ENTRIES > 0 && typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Region coordinates are rounded so that re-serialized values still hit the same entry.
+const round = (value: number) => Math.round(value * 10000) / 10000;
+const roundRegion = ({ boundingBox: { x, y, width, height }, polygon }: Pick<UserBox, 'boundingBox' | 'polygon'>) =>
+  polygon ? polygon.map(point => [round(point.x), round(point.y)]) : [x, y, width, height].map(round);
+
+// SHA-256 of the encoded image bytes followed by the request parameters
+export async function getCacheKey(base64ImageData: string, params: CacheKeyParams): Promise<string> {
+  const binary = atob(base64ImageData);
+  const imageBytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const paramBytes = new TextEncoder().encode(JSON.stringify({ ...params, boxes: params.boxes?.map(roundRegion) }));
+  const bytes = new Uint8Array(imageBytes.length + paramBytes.length);
+  bytes.set(imageBytes);
+  bytes.set(paramBytes, imageBytes.length);
+  return toHex(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+export async function readCachedResponse(key: string): Promise<CachedResponse | undefined> {
+  const entry = await runRequest<CachedResponse | undefined>(RESPONSE_CACHE_STORE, 'readonly', store => store.get(key));
+  if (!entry) return undefined;
+  if (MAX_AGE_MS > 0 && Date.now() - entry.createdAt > MAX_AGE_MS) {
+    await runRequest(RESPONSE_CACHE_STORE, 'readwrite', store => store.delete(key));
+    return undefined;
+  }
+  await runRequest(RESPONSE_CACHE_STORE, 'readwrite', store => store.put({ ...entry, lastUsedAt: Date.now() }));
+  return entry;
+}
+
+// Deletes the least recently used entries until at most MAX_ENTRIES remain.
+async function evictLeastRecentlyUsed(): Promise<void> {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(RESPONSE_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(RESPONSE_CACHE_STORE);
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_ENTRIES;
+      if (excess <= 0) return;
+      const cursorRequest = store.index('lastUsedAt').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) return;
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The database transaction was aborted.'));
+  });
+}
+
+export async function writeCachedResponse(key: string, request: VisionRequest, raw: unknown, boxIds?: string[]): Promise<void> {
+  const now = Date.now();
+  const entry: CachedResponse = { key, request, raw, boxIds, byteSize: JSON.stringify(raw)?.length ?? 0, createdAt: now, lastUsedAt: now };
+  await runRequest(RESPONSE_CACHE_STORE, 'readwrite', store => store.put(entry));
+  await evictLeastRecentlyUsed();
+}
+
+// Results refer to boxes by id, so a cached identification is rewritten to the ids of the boxes now being identified.
+export function remapBoxIds(raw: unknown, fromIds: string[], toIds: string[]): unknown {
+  if (!Array.isArray(raw)) return raw;
+  const idMap = new Map(fromIds.map((id, index) => [id, toIds[index]]));
+  return raw.map(item => {
+    if (typeof item !== 'object' || item === null || !('id' in item)) return item;
+    const id = idMap.get(String((item as { id: unknown }).id));
+    return id === undefined ? item : { ...item, id };
+  });
+}
+
+export async function getResponseCacheStats(): Promise<CacheStats> {
+  const entries = await runRequest<CachedResponse[]>(RESPONSE_CACHE_STORE, 'readonly', store => store.getAll());
+  return { entries: entries.length, byteSize: entries.reduce((sum, entry) => sum + entry.byteSize, 0) };
+}
+
+export async function clearResponseCache(): Promise<void> {
+  await runRequest(RESPONSE_CACHE_STORE, 'readwrite', store => store.clear());
+}
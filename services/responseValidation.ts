@@ -0,0 +1,290 @@
+import type { AlternativeCandidate, AnalysisResult, BoundingBox, DetectedItem, DetectionResult, DroppedItem, IdentifiedItem, Macros, MealUpdate, MealUpdateAction, NutritionLabel, Point, Portion, RefinementResult } from '../types';
+import { InvalidResponseError, MalformedResponseError } from './errors';
+import type { VisionRequest } from './errors';
+import { MACRO_KEYS, emptyMacros } from '../utils/nutrition';
+import { polygonArea, polygonBounds } from '../utils/geometry';
+
+// A model response checked against the app's types, with the items that had to be left out and why.
+export interface ValidatedResponse<T> {
+  value: T;
+  dropped: DroppedItem[];
+}
+
+type JsonObject = Record<string, unknown>;
+// A repaired value, or the reason it could not be repaired
+type Repaired<T extends object> = T | string;
+
+// Boxes narrower or shorter than this after clamping do not cover a meaningful part of the image.
+const MIN_BOX_SIZE = 0.005;
+// More alternatives than this are not useful to pick from.
+const MAX_ALTERNATIVES = 3;
+// Gemini's native box format uses coordinates on a 0-1000 grid, which it sometimes returns despite the prompt.
+const NATIVE_BOX_SCALE = 1000;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Accepts numbers and numeric strings such as "250" or "250 kcal".
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export function parseJsonResponse(text: string, request: VisionRequest): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new MalformedResponseError(request, [err instanceof Error ? err.message : String(err)]);
+  }
+}
+
+// Coordinates on Gemini's 0-1000 grid are brought back to 0-1. Only a single coordinate or size well above 1 marks the
+// grid; normalized boxes that merely run off the image (x + width > 1) stay as they are and are clamped.
+const fromNativeScale = (values: number[]): number[] => {
+  const largest = Math.max(...values.map(Math.abs));
+  return largest > 1.5 && largest <= NATIVE_BOX_SCALE * 1.05 ? values.map(value => value / NATIVE_BOX_SCALE) : values;
+};
+
+const isNumber = (value: number | undefined): value is number => value !== undefined;
+
+const expectArray = (raw: unknown, request: VisionRequest): unknown[] => {
+  if (!Array.isArray(raw)) {
+    throw new MalformedResponseError(request, [`expected an array, got ${raw === null ? 'null' : typeof raw}`]);
+  }
+  return raw;
+};
+
+// Scales, un-swaps and clamps a box into the image; boxes left with no area cannot be repaired.
+export function repairBoundingBox(raw: unknown): Repaired<BoundingBox> {
+  if (!isObject(raw)) return 'missing bounding box';
+  const values = [raw.x, raw.y, raw.width, raw.height].map(toNumber).filter(isNumber);
+  if (values.length < 4) return 'bounding box coordinates are not numbers';
+  let [x, y, width, height] = fromNativeScale(values);
+  // A negative size means the corners were given the wrong way round.
+  if (width < 0) {
+    x += width;
+    width = -width;
+  }
+  if (height < 0) {
+    y += height;
+    height = -height;
+  }
+
+  const left = clamp01(x);
+  const top = clamp01(y);
+  const right = clamp01(x + width);
+  const bottom = clamp01(y + height);
+  if (right - left < MIN_BOX_SIZE || bottom - top < MIN_BOX_SIZE) {
+    return 'bounding box is outside the image or empty';
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+// Scales and clamps polygon vertices into the image; outlines with fewer than 3 usable vertices or no area are ignored.
+export function repairPolygon(raw: unknown): Point[] | undefined {
+  if (!Array.isArray(raw) || raw.length < 3) return undefined;
+  const values = raw.flatMap(point => isObject(point) ? [toNumber(point.x), toNumber(point.y)] : [undefined, undefined]);
+  const numbers = values.filter(isNumber);
+  if (numbers.length < values.length) return undefined;
+  const flat = fromNativeScale(numbers);
+  const points: Point[] = [];
+  for (let i = 0; i < flat.length; i += 2) {
+    points.push({ x: clamp01(flat[i]), y: clamp01(flat[i + 1]) });
+  }
+  const bounds = polygonBounds(points);
+  if (bounds.width < MIN_BOX_SIZE || bounds.height < MIN_BOX_SIZE || polygonArea(points) < MIN_BOX_SIZE * MIN_BOX_SIZE) return undefined;
+  return points;
+}
+
+const repairPortion = (raw: unknown): Portion | undefined => {
+  if (!isObject(raw)) return undefined;
+  const amount = toNumber(raw.amount);
+  if (amount === undefined || amount <= 0) return undefined;
+  const unit = toText(raw.unit).toLowerCase();
+  return {
+    amount,
+    unit: unit.startsWith('ml') || unit.startsWith('millil') ? 'ml' : 'g',
+    householdMeasure: toText(raw.householdMeasure),
+  };
+};
+
+// Missing or negative nutrients are read as zero rather than dropping the whole item.
+const repairMacros = (raw: unknown): Macros => {
+  const macros = emptyMacros();
+  if (!isObject(raw)) return macros;
+  for (const key of MACRO_KEYS) {
+    macros[key] = Math.max(0, toNumber(raw[key]) ?? 0);
+  }
+  return macros;
+};
+
+export function validateDetection(raw: unknown): ValidatedResponse<DetectionResult> {
+  const value: DetectionResult = [];
+  const dropped: DroppedItem[] = [];
+  expectArray(raw, 'detection').forEach((item, index) => {
+    // A usable outline takes precedence, and its bounds replace the box so the two always agree.
+    const polygon = isObject(item) ? repairPolygon(item.polygon) : undefined;
+    const box = polygon ? polygonBounds(polygon) : repairBoundingBox(isObject(item) ? item.boundingBox : undefined);
+    if (typeof box === 'string') {
+      dropped.push({ index, reason: box });
+    } else {
+      const detected: DetectedItem = { boundingBox: box };
+      if (polygon) detected.polygon = polygon;
+      value.push(detected);
+    }
+  });
+  if (value.length === 0 && dropped.length > 0) {
+    throw new InvalidResponseError('detection', 'none of the detected boxes lie inside the image.', dropped.map(item => item.reason));
+  }
+  return { value, dropped };
+}
+
+// Confidence given as a percentage is scaled down; anything outside 0-100 is ignored.
+const repairConfidence = (raw: unknown): number | undefined => {
+  const value = toNumber(raw);
+  if (value === undefined || value < 0 || value > 100) return undefined;
+  return value > 1 ? value / 100 : value;
+};
+
+// Keeps well-formed alternatives that differ from the chosen name and from each other.
+const repairAlternatives = (raw: unknown, name: string): AlternativeCandidate[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const seen = new Set([name.toLowerCase()]);
+  const alternatives: AlternativeCandidate[] = [];
+  for (const item of raw) {
+    if (!isObject(item)) continue;
+    const altName = toText(item.name);
+    const calories = toNumber(item.calories);
+    if (!altName || seen.has(altName.toLowerCase()) || calories === undefined || calories < 0) continue;
+    seen.add(altName.toLowerCase());
+    alternatives.push({ name: altName, calories: Math.round(calories), macros: repairMacros(item.macros), confidence: repairConfidence(item.confidence) });
+  }
+  return alternatives.length > 0 ? alternatives.slice(0, MAX_ALTERNATIVES) : undefined;
+};
+
+const repairIdentifiedItem = (raw: unknown, requestedIds: Set<string>, seenIds: Set<string>): Repaired<IdentifiedItem> => {
+  if (!isObject(raw)) return 'result is not an object';
+  const id = typeof raw.id === 'number' ? String(raw.id) : toText(raw.id);
+  if (!requestedIds.has(id)) return id ? `unknown box id "${id}"` : 'missing box id';
+  if (seenIds.has(id)) return `duplicate result for box "${id}"`;
+  const name = toText(raw.name);
+  if (!name) return 'missing food name';
+
+  const portion = repairPortion(raw.portion);
+  const energyDensity = Math.max(0, toNumber(raw.energyDensity) ?? 0);
+  // Calories can be recovered from the density and portion when the model left them out.
+  const calories = toNumber(raw.calories) ?? (portion && energyDensity > 0 ? energyDensity * portion.amount / 100 : undefined);
+  if (calories === undefined || calories < 0) return `calories for "${name}" are not a valid number`;
+
+  seenIds.add(id);
+  return {
+    id,
+    name,
+    calories: Math.round(calories),
+    macros: repairMacros(raw.macros),
+    portion,
+    energyDensity,
+    confidence: repairConfidence(raw.confidence),
+    alternatives: repairAlternatives(raw.alternatives, name),
+  };
+};
+
+// Keeps one valid result per requested box; anything referring to other boxes or missing a name or calories is dropped.
+export function validateAnalysis(raw: unknown, requestedIds: string[]): ValidatedResponse<AnalysisResult> {
+  const value: AnalysisResult = [];
+  const dropped: DroppedItem[] = [];
+  const requested = new Set(requestedIds);
+  const seen = new Set<string>();
+  expectArray(raw, 'identification').forEach((item, index) => {
+    const result = repairIdentifiedItem(item, requested, seen);
+    if (typeof result === 'string') {
+      dropped.push({ index, id: isObject(item) && typeof item.id === 'string' ? item.id : undefined, reason: result });
+    } else {
+      value.push(result);
+    }
+  });
+  if (value.length === 0 && dropped.length > 0) {
+    throw new InvalidResponseError('identification', 'none of the identified items could be used.', dropped.map(item => item.reason));
+  }
+  return { value, dropped };
+}
+
+export function validateNutritionLabel(raw: unknown): NutritionLabel {
+  if (!isObject(raw)) {
+    throw new MalformedResponseError('label', [`expected an object, got ${raw === null ? 'null' : typeof raw}`]);
+  }
+  const servingSize = repairPortion(raw.servingSize);
+  if (!servingSize) throw new InvalidResponseError('label', 'the serving size could not be read.');
+  const calories = toNumber(raw.calories);
+  if (calories === undefined || calories < 0) throw new InvalidResponseError('label', 'the calories per serving could not be read.');
+  const servingsPerContainer = toNumber(raw.servingsPerContainer);
+  return {
+    productName: toText(raw.productName) || undefined,
+    servingSize,
+    servingsPerContainer: servingsPerContainer && servingsPerContainer > 0 ? servingsPerContainer : undefined,
+    calories,
+    macros: repairMacros(raw.macros),
+  };
+}
+
+const UPDATE_ACTIONS: MealUpdateAction[] = ['rename', 'recalorie', 'add', 'remove'];
+
+const repairMealUpdate = (raw: unknown, itemIds: Set<string>): Repaired<MealUpdate> => {
+  if (!isObject(raw)) return 'update is not an object';
+  const action = toText(raw.action).toLowerCase() as MealUpdateAction;
+  if (!UPDATE_ACTIONS.includes(action)) return raw.action ? `unknown update "${toText(raw.action)}"` : 'missing update action';
+  const update: MealUpdate = { action, reason: toText(raw.reason) };
+
+  if (action !== 'add') {
+    const id = typeof raw.id === 'number' ? String(raw.id) : toText(raw.id);
+    if (!itemIds.has(id)) return id ? `unknown item id "${id}"` : 'missing item id';
+    update.id = id;
+  }
+  const name = toText(raw.name);
+  if ((action === 'rename' || action === 'add') && !name) return 'missing food name';
+  if (name && action !== 'remove') update.name = name;
+
+  const calories = toNumber(raw.calories);
+  if ((action === 'recalorie' || action === 'add') && (calories === undefined || calories < 0)) {
+    return `calories${name ? ` for "${name}"` : ''} are not a valid number`;
+  }
+  if (action !== 'remove' && calories !== undefined && calories >= 0) {
+    update.calories = Math.round(calories);
+    if (isObject(raw.macros)) update.macros = repairMacros(raw.macros);
+    const portion = repairPortion(raw.portion);
+    if (portion) update.portion = portion;
+  }
+  return update;
+};
+
+// Keeps updates that name a known item and carry what their action needs. The reply is kept even when every update is dropped.
+export function validateRefinement(raw: unknown, itemIds: string[]): ValidatedResponse<RefinementResult> {
+  if (!isObject(raw)) {
+    throw new MalformedResponseError('refinement', [`expected an object, got ${raw === null ? 'null' : typeof raw}`]);
+  }
+  const ids = new Set(itemIds);
+  const updates: MealUpdate[] = [];
+  const dropped: DroppedItem[] = [];
+  (Array.isArray(raw.updates) ? raw.updates : []).forEach((item, index) => {
+    const result = repairMealUpdate(item, ids);
+    if (typeof result === 'string') {
+      dropped.push({ index, id: isObject(item) && typeof item.id === 'string' ? item.id : undefined, reason: result });
+    } else {
+      updates.push(result);
+    }
+  });
+  const reply = toText(raw.reply);
+  if (!reply && updates.length === 0) {
+    throw new InvalidResponseError('refinement', 'it contained neither a reply nor any changes.', dropped.map(item => item.reason));
+  }
+  return { value: { reply, updates }, dropped };
+}
+
+// One line for the user about results that were left out, e.g. "Ignored 2 results from the model: unknown box id "7"."
+export function describeDropped(dropped: DroppedItem[]): string {
+  const reasons = [...new Set(dropped.map(item => item.reason))];
+  return `Ignored ${dropped.length} ${dropped.length === 1 ? 'result' : 'results'} from the model: ${reasons.join('; ')}.`;
+}
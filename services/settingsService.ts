@@ -0,0 +1,33 @@
+import type { DedupeThresholds } from '../utils/geometry';
+
+const SETTINGS_KEY = 'gemini-calorie-counter:settings';
+
+export interface AppSettings {
+  dailyCalorieTarget: number;
+  dedupe: DedupeThresholds; // for removing duplicate boxes after detection
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  dailyCalorieTarget: 2000,
+  dedupe: { iou: 0.7, containment: 0.9 },
+};
+
+export function loadSettings(): AppSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return { ...DEFAULT_SETTINGS };
+    const parsed = JSON.parse(stored);
+    return { ...DEFAULT_SETTINGS, ...parsed, dedupe: { ...DEFAULT_SETTINGS.dedupe, ...parsed.dedupe } };
+  } catch (error) {
+    console.warn('Failed to load settings, using defaults:', error);
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export function saveSettings(settings: AppSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Failed to save settings:', error);
+  }
+}
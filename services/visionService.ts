@@ -0,0 +1,137 @@
+import type { AnalysisResult, ChatMessage, DetectionResult, MealItem, NutritionLabel, RefinementResult, UserBox, VisionProvider } from '../types';
+import { validateAnalysis, validateDetection, validateNutritionLabel, validateRefinement } from './responseValidation';
+import type { ValidatedResponse } from './responseValidation';
+import { isTransientError } from './errors';
+import { getCacheKey, isResponseCacheEnabled, readCachedResponse, remapBoxIds, writeCachedResponse } from './responseCache';
+import type { CacheKeyParams } from './responseCache';
+import { withRetry } from '../utils/retry';
+import type { RetryOptions } from '../utils/retry';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createFixtureProvider } from './fixtureService';
+
+export type VisionProviderName = 'gemini' | 'fixture';
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  refresh?: boolean; // skip cached answers and ask the provider again; the new answer replaces the cached one
+}
+
+// Bump when a prompt or response schema changes so answers cached for the old one are not reused.
+const PROMPT_VERSION = 3;
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_MAX_RETRIES = 2;
+
+const readNonNegativeInteger = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value?.trim() && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Per-attempt timeout and retry count come from VISION_TIMEOUT_MS and VISION_MAX_RETRIES.
+const retryPolicy = (): Omit<RetryOptions, 'signal'> => ({
+  retries: readNonNegativeInteger(process.env.VISION_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+  timeoutMs: readNonNegativeInteger(process.env.VISION_TIMEOUT_MS, DEFAULT_TIMEOUT_MS) || undefined,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  isRetryable: isTransientError,
+});
+
+let activeProvider: VisionProvider | null = null;
+
+// Resolves the provider from VISION_PROVIDER, falling back to the offline fixtures when no API key is configured.
+const resolveProviderName = (): VisionProviderName => {
+  const configured = process.env.VISION_PROVIDER?.trim().toLowerCase();
+  if (configured === 'gemini' || configured === 'fixture') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown VISION_PROVIDER "${configured}", falling back to the default provider.`);
+  }
+  return process.env.API_KEY ? 'gemini' : 'fixture';
+};
+
+export function getVisionProvider(): VisionProvider {
+  if (!activeProvider) {
+    const name = resolveProviderName();
+    activeProvider = name === 'gemini'
+      ? createGeminiProvider(process.env.API_KEY, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL)
+      : createFixtureProvider();
+  }
+  return activeProvider;
+}
+
+export function setVisionProvider(provider: VisionProvider | null): void {
+  activeProvider = provider;
+}
+
+const logDropped = <T>(response: ValidatedResponse<T>, request: string): ValidatedResponse<T> => {
+  if (response.dropped.length > 0) {
+    console.warn(`Dropped ${response.dropped.length} invalid items from the ${request} response:`, response.dropped);
+  }
+  return response;
+};
+
+interface CachedCall<T> {
+  params: Pick<CacheKeyParams, 'request' | 'boxes'>;
+  boxIds?: string[];
+  fetch: (provider: VisionProvider, signal: AbortSignal) => Promise<unknown>;
+  validate: (raw: unknown) => T;
+}
+
+// Answers from the local cache when the same image and parameters were sent before; only valid responses are stored.
+// The cache is best-effort: when it cannot be read or written the request goes to the provider as usual.
+async function requestWithCache<T>(base64ImageData: string, call: CachedCall<T>, options: RequestOptions): Promise<T> {
+  const provider = getVisionProvider();
+  let key: string | null = null;
+  if (isResponseCacheEnabled()) {
+    try {
+      key = await getCacheKey(base64ImageData, { ...call.params, provider: provider.name, model: provider.model, promptVersion: PROMPT_VERSION });
+      const cached = options.refresh ? undefined : await readCachedResponse(key);
+      if (cached) {
+        return call.validate(call.boxIds && cached.boxIds ? remapBoxIds(cached.raw, cached.boxIds, call.boxIds) : cached.raw);
+      }
+    } catch (err) {
+      console.warn(`Could not use the cached ${call.params.request} response:`, err);
+    }
+  }
+
+  const raw = await withRetry(signal => call.fetch(provider, signal), { ...retryPolicy(), signal: options.signal });
+  const value = call.validate(raw);
+  if (key) {
+    writeCachedResponse(key, call.params.request, raw, call.boxIds).catch(err => console.warn('Could not cache the response:', err));
+  }
+  return value;
+}
+
+export async function detectFoodItems(base64ImageData: string, mimeType: string, options: RequestOptions = {}): Promise<ValidatedResponse<DetectionResult>> {
+  return requestWithCache(base64ImageData, {
+    params: { request: 'detection' },
+    fetch: (provider, signal) => provider.detectFoodItems(base64ImageData, mimeType, signal),
+    validate: raw => logDropped(validateDetection(raw), 'detection'),
+  }, options);
+}
+
+export async function identifyItemsInBoxes(base64ImageData: string, mimeType: string, boxes: UserBox[], options: RequestOptions = {}): Promise<ValidatedResponse<AnalysisResult>> {
+  const boxIds = boxes.map(box => box.id);
+  return requestWithCache(base64ImageData, {
+    params: { request: 'identification', boxes: boxes.map(({ boundingBox, polygon }) => ({ boundingBox, polygon })) },
+    boxIds,
+    fetch: (provider, signal) => provider.identifyItemsInBoxes(base64ImageData, mimeType, boxes, signal),
+    validate: raw => logDropped(validateAnalysis(raw, boxIds), 'identification'),
+  }, options);
+}
+
+export async function readNutritionLabel(base64ImageData: string, mimeType: string, options: RequestOptions = {}): Promise<NutritionLabel> {
+  return requestWithCache(base64ImageData, {
+    params: { request: 'label' },
+    fetch: (provider, signal) => provider.readNutritionLabel(base64ImageData, mimeType, signal),
+    validate: validateNutritionLabel,
+  }, options);
+}
+
+// Not cached: the answer depends on the whole conversation, and the user expects a fresh reply to each message.
+export async function refineMeal(base64ImageData: string, mimeType: string, items: MealItem[], messages: ChatMessage[], options: RequestOptions = {}): Promise<ValidatedResponse<RefinementResult>> {
+  const provider = getVisionProvider();
+  const raw = await withRetry(signal => provider.refineMeal(base64ImageData, mimeType, items, messages, signal), { ...retryPolicy(), signal: options.signal });
+  return logDropped(validateRefinement(raw, items.map(item => item.id)), 'refinement');
+}
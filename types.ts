@@ -6,12 +6,100 @@ export interface BoundingBox {
   height: number; // height (normalized 0-1)
 }
 
-// Represents a box drawn by the user, which can later be populated with analysis results
-export interface UserBox {
+export interface Point {
+  x: number; // normalized 0-1
+  y: number; // normalized 0-1
+}
+
+// Macronutrient breakdown of a food item. Masses are in grams, sodium is in milligrams.
+export interface Macros {
+  protein: number;
+  carbohydrate: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+}
+
+export type PortionUnit = 'g' | 'ml';
+
+// An estimated serving of a food item
+export interface Portion {
+  amount: number; // grams or millilitres
+  unit: PortionUnit;
+  householdMeasure: string; // e.g. "1 cup", "2 slices"
+}
+
+// An entry in the bundled nutrition database, with values per 100 g
+export interface FoodReference {
+  id: string;
+  name: string;
+  aliases: string[];
+  energyDensity: number; // kcal per 100 g
+  nutrientDensity: Macros; // macros per 100 g
+}
+
+// Links a meal item to a nutrition database entry whose values replace the model's estimate
+export interface FoodMatch {
+  foodId: string;
+  name: string; // canonical name of the database entry
+  score: number; // 0-1 similarity of the item name to the entry; 1 when picked by the user
+}
+
+// How much of an item was left on the plate, from the "after" photo or set by hand
+export interface Leftover {
+  fraction: number; // share of the served portion that remains, 0-1
+  estimatedFraction?: number; // what the after-photo matching estimated, kept when the user overrides it
+  matchedBoxId?: string; // the box in the after photo this item was matched to, if any
+  userProvided?: boolean;
+}
+
+// Another food the model considered for an item, with its estimate for the same portion
+export interface AlternativeCandidate {
+  name: string;
+  calories: number;
+  macros: Macros;
+  confidence?: number; // 0-1
+}
+
+// A food item in a meal, with whatever nutrition information is known about it
+export interface MealItem {
   id: string;
-  boundingBox: BoundingBox;
   name?: string;
   calories?: number;
+  macros?: Macros;
+  portion?: Portion; // current portion, possibly edited by the user
+  estimatedPortion?: Portion; // portion as originally estimated by the model
+  energyDensity?: number; // kcal per 100 g or ml
+  nutrientDensity?: Macros; // macros per 100 g or ml
+  userProvided?: boolean; // name or calories were corrected by the user; identification must not overwrite them
+  notFood?: boolean; // marked by the user as not containing food
+  foodMatch?: FoodMatch; // when set, energy and nutrient densities come from the nutrition database
+  modelEstimate?: { energyDensity: number; nutrientDensity?: Macros }; // the model's own densities, kept so a match can be undone
+  barcode?: string; // set when the item was added by scanning a packaged product
+  fromLabel?: boolean; // nutrition was read from a photographed Nutrition Facts label
+  leftover?: Leftover; // calories and macros describe what was served; totals subtract the leftover
+  confidence?: number; // 0-1, how sure the model is of the name
+  alternatives?: AlternativeCandidate[]; // other foods the item might be, most likely first
+}
+
+// A packaged food from the local product table, with nutrition as printed on its label
+export interface Product {
+  barcode: string; // 13-digit GTIN; UPC-A codes are stored with a leading zero
+  name: string;
+  brand?: string;
+  serving: Portion;
+  energyDensity: number; // kcal per 100 g or ml
+  nutrientDensity: Macros; // macros per 100 g or ml
+}
+
+// Represents a box drawn by the user, which can later be populated with analysis results.
+// A region with a polygon covers only the inside of the polygon; its boundingBox is then the polygon's bounds.
+export interface UserBox extends MealItem {
+  boundingBox: BoundingBox;
+  polygon?: Point[]; // vertices in drawing order, for regions that are not rectangles
+  identifiedBoundingBox?: BoundingBox; // geometry when the box was last identified; the result is stale once boundingBox differs
+  identifiedPolygon?: Point[]; // polygon when the box was last identified
 }
 
 
@@ -20,6 +108,11 @@ export interface IdentifiedItem {
     id: string; // Corresponds to the id of a UserBox
     name: string;
     calories: number;
+    macros: Macros;
+    portion?: Portion; // missing when the model's portion estimate was unusable
+    energyDensity: number; // kcal per 100 g or ml
+    confidence?: number; // 0-1, missing when the model gave none
+    alternatives?: AlternativeCandidate[];
 }
 
 // The overall result from the Gemini API analysis for identification
@@ -29,7 +122,83 @@ export type AnalysisResult = IdentifiedItem[];
 // Represents a single item found during the initial detection phase
 export interface DetectedItem {
     boundingBox: BoundingBox;
+    polygon?: Point[]; // outline, when the provider returned one
 }
 
 // The overall result from the initial detection phase
 export type DetectionResult = DetectedItem[];
+
+// An item of a model response that failed validation and was left out
+export interface DroppedItem {
+  index: number; // position in the response array
+  id?: string; // the box id the item claimed, if any
+  reason: string;
+}
+
+
+// One turn of the conversation about a meal
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export type MealUpdateAction = 'rename' | 'recalorie' | 'add' | 'remove';
+
+// A change to the meal proposed by the model in reply to the user's message.
+// Calories, macros and portion describe the item after the change; 'add' items are hidden ones with no box on the image.
+export interface MealUpdate {
+  action: MealUpdateAction;
+  id?: string; // the item to change; missing for 'add'
+  name?: string; // new name for 'rename', name of the item for 'add'
+  calories?: number;
+  macros?: Macros;
+  portion?: Portion;
+  reason: string; // what in the message led to the change
+}
+
+// The model's answer to a message: a reply to show in the chat and the updates for the user to review
+export interface RefinementResult {
+  reply: string;
+  updates: MealUpdate[];
+}
+
+
+// Values read from a Nutrition Facts panel. Calories and macros are per serving.
+export interface NutritionLabel {
+  productName?: string;
+  servingSize: Portion;
+  servingsPerContainer?: number;
+  calories: number;
+  macros: Macros;
+}
+
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// A meal saved to the local meal log
+export interface MealEntry {
+  id: string;
+  timestamp: number; // when the meal was eaten (EXIF capture time when available), ms since epoch
+  mealType: MealType;
+  thumbnail?: string; // compressed JPEG data URL; missing for meals logged only from barcodes
+  imageDimensions?: { width: number; height: number };
+  boxes: UserBox[];
+  extraItems?: MealItem[]; // items added without a box on the image
+  afterThumbnail?: string; // photo of the plate after eating, when leftovers were measured
+  totals: { calories: number; macros: Macros };
+  createdAt: number;
+  updatedAt: number;
+}
+
+
+// A backend capable of locating and identifying food items in an image.
+// Responses are untrusted: visionService validates them into DetectionResult, AnalysisResult, NutritionLabel and RefinementResult.
+// Aborting the signal should stop the request; visionService also stops waiting for it.
+export interface VisionProvider {
+    name: string;
+    model: string;
+    detectFoodItems(base64ImageData: string, mimeType: string, signal?: AbortSignal): Promise<unknown>;
+    identifyItemsInBoxes(base64ImageData: string, mimeType: string, boxes: UserBox[], signal?: AbortSignal): Promise<unknown>;
+    readNutritionLabel(base64ImageData: string, mimeType: string, signal?: AbortSignal): Promise<unknown>;
+    refineMeal(base64ImageData: string, mimeType: string, items: MealItem[], messages: ChatMessage[], signal?: AbortSignal): Promise<unknown>;
+}
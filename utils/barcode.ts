@@ -0,0 +1,189 @@
+// Client-side EAN-13 / UPC-A decoding from camera frames or uploaded images.
+// Works on scanlines: each line is binarized, run-length encoded and matched against the EAN-13 structure
+// (start guard, 6 left digits, centre guard, 6 right digits, end guard = 59 bars and spaces over 95 modules).
+
+// Widths of the four runs of each digit in its L (odd parity) encoding, space first.
+// R encodings use the same widths starting with a bar, G encodings are the L widths reversed.
+const DIGIT_WIDTHS: number[][] = [
+  [3, 2, 1, 1], [2, 2, 2, 1], [2, 1, 2, 2], [1, 4, 1, 1], [1, 1, 3, 2],
+  [1, 2, 3, 1], [1, 1, 1, 4], [1, 3, 1, 2], [1, 2, 1, 3], [3, 1, 1, 2],
+];
+
+// The L/G parity pattern of the six left-hand digits encodes the implicit first digit.
+const FIRST_DIGIT_PARITY = [
+  'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL',
+];
+
+const RUN_COUNT = 59;
+const MODULE_COUNT = 95;
+const MAX_DIGIT_ERROR = 1.6;
+const MAX_GUARD_ERROR = 0.7;
+const SCANLINES = 24;
+
+// Normalizes EAN-13 and UPC-A codes to 13 digits so both look up the same product.
+export function normalizeBarcode(code: string): string | null {
+  const digits = code.replace(/\s+/g, '');
+  if (!/^\d{12,13}$/.test(digits)) return null;
+  const gtin = digits.padStart(13, '0');
+  return isValidGtin(gtin) ? gtin : null;
+}
+
+export function isValidGtin(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false;
+  const digits = code.split('').map(Number);
+  const sum = digits.slice(0, 12).reduce((total, digit, i) => total + digit * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10 === digits[12];
+}
+
+// Shows UPC-A codes (a leading zero in EAN-13 form) the way they are printed on the package.
+export const formatBarcode = (code: string): string => code.length === 13 && code.startsWith('0') ? code.slice(1) : code;
+
+const guardError = (runs: number[], start: number, count: number, unit: number) => {
+  let error = 0;
+  for (let i = 0; i < count; i++) {
+    error = Math.max(error, Math.abs(runs[start + i] / unit - 1));
+  }
+  return error;
+};
+
+// Finds the digit whose widths best match four runs, returning the digit, whether it used G parity, and the error.
+const matchDigit = (runs: number[], start: number, allowG: boolean) => {
+  const total = runs[start] + runs[start + 1] + runs[start + 2] + runs[start + 3];
+  const scaled = [0, 1, 2, 3].map(i => runs[start + i] * 7 / total);
+  let best = { digit: -1, isG: false, error: Infinity };
+  DIGIT_WIDTHS.forEach((widths, digit) => {
+    const candidates: [number[], boolean][] = allowG ? [[widths, false], [[...widths].reverse(), true]] : [[widths, false]];
+    for (const [pattern, isG] of candidates) {
+      const error = pattern.reduce((sum, width, i) => sum + Math.abs(scaled[i] - width), 0);
+      if (error < best.error) best = { digit, isG, error };
+    }
+  });
+  return best;
+};
+
+// Tries to read a complete symbol from the runs starting at `start`, which must be the first bar of the start guard.
+const decodeAt = (runs: number[], start: number): string | null => {
+  if (start + RUN_COUNT > runs.length) return null;
+  let width = 0;
+  for (let i = 0; i < RUN_COUNT; i++) width += runs[start + i];
+  const unit = width / MODULE_COUNT;
+
+  // The quiet zone before the start guard must be clearly wider than a module.
+  if (start > 0 && runs[start - 1] < unit * 3) return null;
+  if (guardError(runs, start, 3, unit) > MAX_GUARD_ERROR) return null;
+  if (guardError(runs, start + 27, 5, unit) > MAX_GUARD_ERROR) return null;
+  if (guardError(runs, start + 56, 3, unit) > MAX_GUARD_ERROR) return null;
+
+  let parity = '';
+  const digits: number[] = [];
+  for (let d = 0; d < 6; d++) {
+    const match = matchDigit(runs, start + 3 + d * 4, true);
+    if (match.error > MAX_DIGIT_ERROR) return null;
+    digits.push(match.digit);
+    parity += match.isG ? 'G' : 'L';
+  }
+  for (let d = 0; d < 6; d++) {
+    const match = matchDigit(runs, start + 32 + d * 4, false);
+    if (match.error > MAX_DIGIT_ERROR) return null;
+    digits.push(match.digit);
+  }
+
+  const firstDigit = FIRST_DIGIT_PARITY.indexOf(parity);
+  if (firstDigit < 0) return null;
+  const code = `${firstDigit}${digits.join('')}`;
+  return isValidGtin(code) ? code : null;
+};
+
+// Binarizes one line of luminance values and returns run lengths, starting with the first dark run.
+const toRuns = (line: Float32Array): number[] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of line) {
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (max - min < 40) return [];
+  const threshold = (min + max) / 2;
+
+  const runs: number[] = [];
+  let current = line[0] < threshold;
+  let length = 0;
+  let seenDark = false;
+  for (const value of line) {
+    const isDark = value < threshold;
+    if (isDark === current) {
+      length++;
+      continue;
+    }
+    if (seenDark || current) runs.push(length);
+    seenDark = seenDark || current;
+    current = isDark;
+    length = 1;
+  }
+  if (seenDark || current) runs.push(length);
+  return runs;
+};
+
+const decodeLine = (line: Float32Array): string | null => {
+  const runs = toRuns(line);
+  // Even indices are bars because toRuns starts at the first dark run.
+  for (let i = 0; i + RUN_COUNT <= runs.length; i += 2) {
+    const code = decodeAt(runs, i);
+    if (code) return code;
+  }
+  return null;
+};
+
+const luminance = (data: Uint8ClampedArray, offset: number) =>
+  0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+
+// Scans horizontal and vertical lines in both directions; the code read most often wins.
+export function decodeBarcode(image: ImageData): string | null {
+  const { width, height, data } = image;
+  const votes = new Map<string, number>();
+  const vote = (line: Float32Array) => {
+    const code = decodeLine(line) ?? decodeLine(line.slice().reverse());
+    if (code) votes.set(code, (votes.get(code) ?? 0) + 1);
+  };
+
+  for (let s = 1; s <= SCANLINES; s++) {
+    const y = Math.floor(height * s / (SCANLINES + 1));
+    const row = new Float32Array(width);
+    for (let x = 0; x < width; x++) row[x] = luminance(data, (y * width + x) * 4);
+    vote(row);
+
+    const x = Math.floor(width * s / (SCANLINES + 1));
+    const column = new Float32Array(height);
+    for (let yy = 0; yy < height; yy++) column[yy] = luminance(data, (yy * width + x) * 4);
+    vote(column);
+  }
+
+  let best: string | null = null;
+  let bestVotes = 0;
+  for (const [code, count] of votes) {
+    if (count > bestVotes) {
+      best = code;
+      bestVotes = count;
+    }
+  }
+  return best;
+}
+
+// Draws an image source onto a canvas no larger than maxEdge and decodes it.
+export function decodeBarcodeFromSource(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  maxEdge = 1024,
+  canvas: HTMLCanvasElement = document.createElement('canvas'),
+): string | null {
+  const scale = Math.min(1, maxEdge / Math.max(sourceWidth, sourceHeight));
+  canvas.width = Math.max(1, Math.round(sourceWidth * scale));
+  canvas.height = Math.max(1, Math.round(sourceHeight * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not get canvas context.');
+  }
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return decodeBarcode(ctx.getImageData(0, 0, canvas.width, canvas.height));
+}
@@ -0,0 +1,34 @@
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Formats a timestamp for an <input type="datetime-local"> in the user's local time zone.
+export const toDateTimeLocalValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const fromDateTimeLocalValue = (value: string): number | null => {
+  const timestamp = new Date(value).getTime();
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+export const formatMealTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Local calendar day key in YYYY-MM-DD form, used to group meals by day.
+export const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Steps by calendar days rather than 24h so daylight saving changes do not skip or repeat a day.
+export const addDays = (timestamp: number, days: number): number => {
+  const date = new Date(timestamp);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
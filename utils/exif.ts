@@ -0,0 +1,112 @@
+// Minimal EXIF reader for JPEG files. Only the tags the app needs are extracted.
+
+export interface ExifData {
+  capturedAt?: Date;
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // absolute offset of the value within the buffer
+}
+
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+// Byte size of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// EXIF metadata lives in APP1, which sits near the start of the file.
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, IfdEntry> => {
+  const entries = new Map<number, IfdEntry>();
+  const count = view.getUint16(ifdOffset, little);
+  for (let i = 0; i < count; i++) {
+    const entryOffset = ifdOffset + 2 + i * 12;
+    const tag = view.getUint16(entryOffset, little);
+    const type = view.getUint16(entryOffset + 2, little);
+    const valueCount = view.getUint32(entryOffset + 4, little);
+    const byteSize = (TYPE_SIZES[type] ?? 1) * valueCount;
+    const valueOffset = byteSize <= 4 ? entryOffset + 8 : tiffStart + view.getUint32(entryOffset + 8, little);
+    entries.set(tag, { type, count: valueCount, valueOffset });
+  }
+  return entries;
+};
+
+const readAscii = (view: DataView, entry: IfdEntry): string => {
+  let value = '';
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(entry.valueOffset + i);
+    if (code === 0) break;
+    value += String.fromCharCode(code);
+  }
+  return value;
+};
+
+// EXIF dates look like "2024:05:17 12:34:56" and are local time unless an offset tag is present.
+const parseExifDate = (value: string, offset?: string): Date | undefined => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+    ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+    : new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseTiff = (view: DataView, tiffStart: number): ExifData => {
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return {};
+  const little = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, little) !== 42) return {};
+
+  const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, little), little);
+  const result: ExifData = {};
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+  if (exifPointer) {
+    const exifIfd = readIfd(view, tiffStart, tiffStart + view.getUint32(exifPointer.valueOffset, little), little);
+    const original = exifIfd.get(TAG_DATETIME_ORIGINAL);
+    const offset = exifIfd.get(TAG_OFFSET_TIME_ORIGINAL);
+    if (original) {
+      result.capturedAt = parseExifDate(readAscii(view, original), offset ? readAscii(view, offset) : undefined);
+    }
+  }
+
+  const modified = ifd0.get(TAG_DATETIME);
+  if (!result.capturedAt && modified) {
+    result.capturedAt = parseExifDate(readAscii(view, modified));
+  }
+  return result;
+};
+
+export function readExif(buffer: ArrayBuffer): ExifData {
+  const view = new DataView(buffer);
+  try {
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xff00) !== 0xff00) return {};
+      // Start of scan: image data follows, so there is no more metadata to find.
+      if (marker === 0xffda) return {};
+      const size = view.getUint16(offset + 2);
+      if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + size;
+    }
+  } catch (error) {
+    // Truncated or malformed metadata is treated the same as missing metadata.
+    console.warn('Failed to read EXIF metadata:', error);
+  }
+  return {};
+}
+
+export async function readExifFromFile(file: Blob): Promise<ExifData> {
+  const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer();
+  return readExif(buffer);
+}
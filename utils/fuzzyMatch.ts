@@ -0,0 +1,62 @@
+// Fuzzy comparison of food names, tolerant of word order, plurals and small spelling differences.
+
+// Words that describe the serving rather than the food
+const STOP_WORDS = new Set(['a', 'an', 'and', 'of', 'the', 'with', 'in', 'on', 'some', 'side', 'slice', 'piece', 'serving', 'portion', 'bowl', 'plate', 'cup', 'glass']);
+
+const singularize = (word: string) => {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes')) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+};
+
+export const tokenize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(singularize);
+
+const bigrams = (text: string): Map<string, number> => {
+  const padded = ` ${text} `;
+  const counts = new Map<string, number>();
+  for (let i = 0; i < padded.length - 1; i++) {
+    const gram = padded.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+};
+
+// Sørensen–Dice coefficient over character bigrams, tolerant of typos and small spelling differences.
+const dice = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let shared = 0;
+  let total = 0;
+  for (const [gram, count] of gramsA) {
+    shared += Math.min(count, gramsB.get(gram) ?? 0);
+    total += count;
+  }
+  for (const count of gramsB.values()) total += count;
+  return total === 0 ? 0 : (2 * shared) / total;
+};
+
+const bestTokenScore = (token: string, others: string[]) =>
+  others.reduce((best, other) => Math.max(best, dice(token, other)), 0);
+
+// Word-level F-score: how much of the query the candidate covers, and how much of the candidate the query covers.
+export const similarity = (query: string[], candidate: string[]): number => {
+  if (query.length === 0 || candidate.length === 0) return 0;
+  if (query.join(' ') === candidate.join(' ')) return 1;
+  const recall = query.reduce((sum, token) => sum + bestTokenScore(token, candidate), 0) / query.length;
+  const precision = candidate.reduce((sum, token) => sum + bestTokenScore(token, query), 0) / candidate.length;
+  const tokenScore = recall + precision === 0 ? 0 : (2 * recall * precision) / (recall + precision);
+  return 0.75 * tokenScore + 0.25 * dice(query.join(' '), candidate.join(' '));
+};
+
+// Similarity of two free-form food names, 0-1.
+export const nameSimilarity = (a: string, b: string): number => similarity(tokenize(a), tokenize(b));
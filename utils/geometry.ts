@@ -0,0 +1,173 @@
+import type { BoundingBox, Point, UserBox } from '../types';
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export function polygonBounds(points: Point[]): BoundingBox {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Shoelace formula; the sign depends on the winding, so the absolute value is returned.
+export function polygonArea(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+// Area a region covers: the polygon when it has one, otherwise its box.
+export const regionArea = (box: Pick<UserBox, 'boundingBox' | 'polygon'>): number =>
+  box.polygon ? polygonArea(box.polygon) : box.boundingBox.width * box.boundingBox.height;
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+// Ramer-Douglas-Peucker: drops points closer than `tolerance` to the simplified outline, so a freehand path keeps few vertices.
+export function simplifyPath(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], first, last);
+    if (distance > farthest) {
+      farthest = distance;
+      index = i;
+    }
+  }
+  if (farthest <= tolerance) return [first, last];
+  return [...simplifyPath(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyPath(points.slice(index), tolerance)];
+}
+
+// Moves or resizes a region to new bounds, stretching its polygon to match.
+export function setRegionBounds<T extends Pick<UserBox, 'boundingBox' | 'polygon'>>(box: T, bounds: BoundingBox): T {
+  if (!box.polygon) return { ...box, boundingBox: bounds };
+  const from = box.boundingBox;
+  const mapAxis = (value: number, start: number, size: number, newStart: number, newSize: number) =>
+    size > 0 ? newStart + (value - start) / size * newSize : newStart;
+  return {
+    ...box,
+    boundingBox: bounds,
+    polygon: box.polygon.map(point => ({
+      x: clamp01(mapAxis(point.x, from.x, from.width, bounds.x, bounds.width)),
+      y: clamp01(mapAxis(point.y, from.y, from.height, bounds.y, bounds.height)),
+    })),
+  };
+}
+
+// Replaces a region's polygon and keeps its box as the polygon's bounds.
+export function setRegionPolygon<T extends Pick<UserBox, 'boundingBox' | 'polygon'>>(box: T, polygon: Point[]): T {
+  const clamped = polygon.map(point => ({ x: clamp01(point.x), y: clamp01(point.y) }));
+  return { ...box, polygon: clamped, boundingBox: polygonBounds(clamped) };
+}
+
+// Vertices relative to the region's box, in 0-1 units, for drawing inside it.
+export const toLocalPoints = (polygon: Point[], bounds: BoundingBox): Point[] =>
+  polygon.map(point => ({
+    x: bounds.width > 0 ? (point.x - bounds.x) / bounds.width : 0,
+    y: bounds.height > 0 ? (point.y - bounds.y) / bounds.height : 0,
+  }));
+
+type Region = Pick<UserBox, 'boundingBox' | 'polygon'>;
+
+const boxArea = (box: BoundingBox) => box.width * box.height;
+
+export function intersectionArea(a: BoundingBox, b: BoundingBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+// Intersection over union of two boxes, 0-1.
+export function intersectionOverUnion(a: BoundingBox, b: BoundingBox): number {
+  const intersection = intersectionArea(a, b);
+  const union = boxArea(a) + boxArea(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+// Share of `inner` that lies inside `outer`, 0-1.
+export function containment(inner: BoundingBox, outer: BoundingBox): number {
+  const area = boxArea(inner);
+  return area > 0 ? intersectionArea(inner, outer) / area : 0;
+}
+
+export function unionBounds(boxes: BoundingBox[]): BoundingBox {
+  const x = Math.min(...boxes.map(box => box.x));
+  const y = Math.min(...boxes.map(box => box.y));
+  return {
+    x,
+    y,
+    width: Math.max(...boxes.map(box => box.x + box.width)) - x,
+    height: Math.max(...boxes.map(box => box.y + box.height)) - y,
+  };
+}
+
+export interface DedupeThresholds {
+  iou: number; // boxes overlapping at least this much are the same item
+  containment: number; // a box with at least this share inside a larger one is part of it
+}
+
+// Greedy suppression over bounding boxes, largest first: a box is dropped when it matches one already kept.
+// The kept boxes stay in their original order.
+export function suppressDuplicates<T extends Region>(regions: T[], thresholds: DedupeThresholds): { kept: T[]; suppressed: T[] } {
+  const bySize = [...regions].sort((a, b) => boxArea(b.boundingBox) - boxArea(a.boundingBox));
+  const kept: T[] = [];
+  const suppressed: T[] = [];
+  for (const region of bySize) {
+    const isDuplicate = kept.some(other =>
+      intersectionOverUnion(region.boundingBox, other.boundingBox) >= thresholds.iou ||
+      containment(region.boundingBox, other.boundingBox) >= thresholds.containment);
+    (isDuplicate ? suppressed : kept).push(region);
+  }
+  return { kept: regions.filter(region => kept.includes(region)), suppressed };
+}
+
+// Sutherland-Hodgman against one axis-aligned line, keeping the side where `inside` holds.
+const clipToHalfPlane = (points: Point[], axis: 'x' | 'y', value: number, keepBelow: boolean): Point[] => {
+  const inside = (point: Point) => keepBelow ? point[axis] <= value : point[axis] >= value;
+  const crossing = (a: Point, b: Point): Point => {
+    const t = (value - a[axis]) / (b[axis] - a[axis]);
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  };
+  const result: Point[] = [];
+  points.forEach((current, i) => {
+    const previous = points[(i + points.length - 1) % points.length];
+    if (inside(current)) {
+      if (!inside(previous)) result.push(crossing(previous, current));
+      result.push(current);
+    } else if (inside(previous)) {
+      result.push(crossing(previous, current));
+    }
+  });
+  return result;
+};
+
+// 'columns' cuts the region into left and right halves, 'rows' into top and bottom halves.
+export type SplitDirection = 'columns' | 'rows';
+
+// Halves of a region, split through the middle of its bounds; polygons are clipped so each half keeps its outline.
+export function splitRegion(region: Region, direction: SplitDirection): [Region, Region] {
+  const { x, y, width, height } = region.boundingBox;
+  const axis = direction === 'columns' ? 'x' : 'y';
+  const middle = direction === 'columns' ? x + width / 2 : y + height / 2;
+  const halves: [BoundingBox, BoundingBox] = direction === 'columns'
+    ? [{ x, y, width: width / 2, height }, { x: middle, y, width: width / 2, height }]
+    : [{ x, y, width, height: height / 2 }, { x, y: middle, width, height: height / 2 }];
+  if (!region.polygon) return [{ boundingBox: halves[0] }, { boundingBox: halves[1] }];
+  return [true, false].map((keepBelow, i) => {
+    const clipped = clipToHalfPlane(region.polygon!, axis, middle, keepBelow);
+    return clipped.length >= 3 ? { boundingBox: polygonBounds(clipped), polygon: clipped } : { boundingBox: halves[i] };
+  }) as [Region, Region];
+}
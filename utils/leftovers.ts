@@ -0,0 +1,60 @@
+import type { Leftover, UserBox } from '../types';
+import { nameSimilarity } from './fuzzyMatch';
+import { regionArea } from './geometry';
+
+// Pairs scoring below this are treated as different foods.
+const MIN_MATCH_SCORE = 0.5;
+
+const center = (box: UserBox) => ({
+  x: box.boundingBox.x + box.boundingBox.width / 2,
+  y: box.boundingBox.y + box.boundingBox.height / 2,
+});
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Names dominate because the after photo is rarely taken from the same spot; position breaks ties between similar foods.
+const matchScore = (before: UserBox, after: UserBox): number => {
+  const sameFood = !!before.foodMatch && before.foodMatch.foodId === after.foodMatch?.foodId;
+  const names = sameFood ? 1 : before.name && after.name ? nameSimilarity(before.name, after.name) : 0;
+  const a = center(before);
+  const b = center(after);
+  const proximity = 1 - Math.min(1, Math.hypot(a.x - b.x, a.y - b.y) / 0.5);
+  return 0.75 * names + 0.25 * proximity;
+};
+
+// Remaining share from the estimated portions, or from the region areas when portions are not comparable.
+const remainingFraction = (before: UserBox, after: UserBox): number => {
+  if (before.portion && after.portion && before.portion.unit === after.portion.unit && before.portion.amount > 0) {
+    return clamp01(after.portion.amount / before.portion.amount);
+  }
+  return regionArea(before) > 0 ? clamp01(regionArea(after) / regionArea(before)) : 0;
+};
+
+// Estimates how much of each item in the before photo is left in the after photo.
+// Items are paired greedily by best score; anything without a counterpart is assumed to be finished.
+// Fractions the user set by hand are kept, with the new estimate stored alongside.
+export function estimateLeftovers(before: UserBox[], after: UserBox[]): UserBox[] {
+  const candidates = before.filter(box => !box.notFood && box.calories !== undefined);
+  const pairs = candidates
+    .flatMap(b => after.map(a => ({ before: b, after: a, score: matchScore(b, a) })))
+    .filter(pair => pair.score >= MIN_MATCH_SCORE)
+    .sort((x, y) => y.score - x.score);
+
+  const matched = new Map<string, UserBox>();
+  const usedAfter = new Set<string>();
+  for (const pair of pairs) {
+    if (matched.has(pair.before.id) || usedAfter.has(pair.after.id)) continue;
+    matched.set(pair.before.id, pair.after);
+    usedAfter.add(pair.after.id);
+  }
+
+  return before.map(box => {
+    if (!candidates.includes(box)) return box;
+    const counterpart = matched.get(box.id);
+    const estimate = counterpart ? Math.round(remainingFraction(box, counterpart) * 20) / 20 : 0;
+    const leftover: Leftover = box.leftover?.userProvided
+      ? { ...box.leftover, estimatedFraction: estimate, matchedBoxId: counterpart?.id }
+      : { fraction: estimate, estimatedFraction: estimate, matchedBoxId: counterpart?.id };
+    return { ...box, leftover };
+  });
+}
@@ -0,0 +1,84 @@
+import type { Macros, MealEntry } from '../types';
+import { addMacros, emptyMacros } from './nutrition';
+import { addDays, startOfDay, toDayKey } from './date';
+
+export interface DailyTotal {
+  dayKey: string;
+  date: number; // start of the day, ms since epoch
+  calories: number;
+  macros: Macros;
+  mealCount: number;
+}
+
+export interface Streaks {
+  currentLogging: number; // consecutive days with at least one logged meal
+  longestLogging: number;
+  currentOnTarget: number; // consecutive logged days at or under the calorie target
+}
+
+const groupByDay = (meals: MealEntry[]): Map<string, MealEntry[]> => {
+  const byDay = new Map<string, MealEntry[]>();
+  for (const meal of meals) {
+    const key = toDayKey(meal.timestamp);
+    byDay.set(key, [...(byDay.get(key) ?? []), meal]);
+  }
+  return byDay;
+};
+
+// Totals for each of the `days` calendar days ending on `endDate`, oldest first. Days without meals are zero.
+export function getDailyTotals(meals: MealEntry[], days: number, endDate: number = Date.now()): DailyTotal[] {
+  const byDay = groupByDay(meals);
+  const lastDay = startOfDay(endDate);
+  const totals: DailyTotal[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = addDays(lastDay, -i);
+    const dayKey = toDayKey(date);
+    const dayMeals = byDay.get(dayKey) ?? [];
+    totals.push({
+      dayKey,
+      date,
+      calories: dayMeals.reduce((sum, meal) => sum + meal.totals.calories, 0),
+      macros: dayMeals.reduce((sum, meal) => addMacros(sum, meal.totals.macros), emptyMacros()),
+      mealCount: dayMeals.length,
+    });
+  }
+  return totals;
+}
+
+// A streak is still current when nothing has been logged today yet, since the day is not over.
+export function getStreaks(meals: MealEntry[], dailyTarget: number, today: number = Date.now()): Streaks {
+  const byDay = groupByDay(meals);
+  const dayCalories = (day: number) => (byDay.get(toDayKey(day)) ?? []).reduce((sum, meal) => sum + meal.totals.calories, 0);
+  const isLogged = (day: number) => byDay.has(toDayKey(day));
+  const isOnTarget = (day: number) => isLogged(day) && dayCalories(day) <= dailyTarget;
+
+  const countBackFrom = (predicate: (day: number) => boolean) => {
+    let day = startOfDay(today);
+    if (!isLogged(day)) day = addDays(day, -1);
+    let count = 0;
+    while (predicate(day)) {
+      count++;
+      day = addDays(day, -1);
+    }
+    return count;
+  };
+
+  let longestLogging = 0;
+  let run = 0;
+  let previousDay: number | null = null;
+  const loggedDays = [...byDay.keys()].sort().map(key => {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day).getTime();
+  });
+  for (const day of loggedDays) {
+    run = previousDay !== null && toDayKey(addDays(previousDay, 1)) === toDayKey(day) ? run + 1 : 1;
+    longestLogging = Math.max(longestLogging, run);
+    previousDay = day;
+  }
+
+  return {
+    currentLogging: countBackFrom(isLogged),
+    longestLogging,
+    currentOnTarget: countBackFrom(isOnTarget),
+  };
+}
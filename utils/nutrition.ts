@@ -0,0 +1,292 @@
+import type { AlternativeCandidate, BoundingBox, FoodReference, Point, IdentifiedItem, Macros, MealItem, MealUpdate, NutritionLabel, Portion, Product, UserBox } from '../types';
+
+export const MACRO_KEYS: (keyof Macros)[] = ['protein', 'carbohydrate', 'fat', 'fiber', 'sugar', 'sodium'];
+
+export const MACRO_LABELS: Record<keyof Macros, string> = {
+  protein: 'Protein',
+  carbohydrate: 'Carbs',
+  fat: 'Fat',
+  fiber: 'Fiber',
+  sugar: 'Sugar',
+  sodium: 'Sodium',
+};
+
+export const MACRO_UNITS: Record<keyof Macros, string> = {
+  protein: 'g',
+  carbohydrate: 'g',
+  fat: 'g',
+  fiber: 'g',
+  sugar: 'g',
+  sodium: 'mg',
+};
+
+// Atwater factors (kcal per gram) for the energy-yielding macronutrients
+const ENERGY_PER_GRAM = { protein: 4, carbohydrate: 4, fat: 9 };
+
+export const emptyMacros = (): Macros => ({ protein: 0, carbohydrate: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0 });
+
+export const addMacros = (a: Macros, b: Macros): Macros => {
+  const sum = emptyMacros();
+  for (const key of MACRO_KEYS) {
+    sum[key] = a[key] + b[key];
+  }
+  return sum;
+};
+
+export const scaleMacros = (macros: Macros, factor: number): Macros => {
+  const scaled = emptyMacros();
+  for (const key of MACRO_KEYS) {
+    scaled[key] = macros[key] * factor;
+  }
+  return scaled;
+};
+
+export const formatMacro = (key: keyof Macros, value: number): string =>
+  `${value >= 10 || key === 'sodium' ? Math.round(value) : Math.round(value * 10) / 10}${MACRO_UNITS[key]}`;
+
+export interface MealTotals {
+  calories: number;
+  macros: Macros;
+  itemCount: number;
+}
+
+export const countsTowardTotals = (item: MealItem): boolean => !item.notFood && item.calories !== undefined;
+
+// Share of the served portion that was actually eaten.
+export const eatenFraction = (item: MealItem): number => 1 - (item.leftover?.fraction ?? 0);
+
+export const getEatenCalories = (item: MealItem): number => Math.round((item.calories ?? 0) * eatenFraction(item));
+
+// Totals of what was eaten: each item's served values less anything left on the plate.
+export function getMealTotals(items: MealItem[]): MealTotals {
+  return items.reduce<MealTotals>((totals, item) => {
+    if (!countsTowardTotals(item)) return totals;
+    const eaten = eatenFraction(item);
+    return {
+      calories: totals.calories + item.calories! * eaten,
+      macros: item.macros ? addMacros(totals.macros, scaleMacros(item.macros, eaten)) : totals.macros,
+      itemCount: totals.itemCount + 1,
+    };
+  }, { calories: 0, macros: emptyMacros(), itemCount: 0 });
+}
+
+// Share of energy contributed by protein, carbohydrate and fat, as fractions summing to 1 (or all 0).
+export function getMacroEnergyRatio(macros: Macros): { protein: number; carbohydrate: number; fat: number } {
+  const protein = macros.protein * ENERGY_PER_GRAM.protein;
+  const carbohydrate = macros.carbohydrate * ENERGY_PER_GRAM.carbohydrate;
+  const fat = macros.fat * ENERGY_PER_GRAM.fat;
+  const total = protein + carbohydrate + fat;
+  if (total <= 0) return { protein: 0, carbohydrate: 0, fat: 0 };
+  return { protein: protein / total, carbohydrate: carbohydrate / total, fat: fat / total };
+}
+
+// Copies an identification result onto its box, deriving per-100 densities so portions can be rescaled locally.
+// Calories are taken from the energy density so that editing the portion never makes the total jump.
+export function applyIdentification(box: UserBox, item: IdentifiedItem): UserBox {
+  const { portion } = item;
+  const hasPortion = !!portion && portion.amount > 0;
+  const energyDensity = item.energyDensity > 0
+    ? item.energyDensity
+    : hasPortion ? item.calories * 100 / portion.amount : undefined;
+  const nutrientDensity = hasPortion ? scaleMacros(item.macros, 100 / portion.amount) : undefined;
+  return {
+    ...box,
+    name: item.name,
+    calories: hasPortion && energyDensity !== undefined ? Math.round(energyDensity * portion.amount / 100) : item.calories,
+    macros: item.macros,
+    portion: hasPortion ? { ...portion } : undefined,
+    estimatedPortion: hasPortion ? { ...portion } : undefined,
+    energyDensity,
+    nutrientDensity,
+    foodMatch: undefined,
+    modelEstimate: energyDensity !== undefined ? { energyDensity, nutrientDensity } : undefined,
+    identifiedBoundingBox: { ...box.boundingBox },
+    identifiedPolygon: box.polygon?.map(point => ({ ...point })),
+    confidence: item.confidence,
+    alternatives: item.alternatives?.map(alternative => ({ ...alternative, macros: { ...alternative.macros } })),
+  };
+}
+
+// Below this the model's name is flagged for the user to check.
+export const LOW_CONFIDENCE = 0.6;
+
+export const isLowConfidence = (item: MealItem): boolean =>
+  !item.userProvided && !item.notFood && item.confidence !== undefined && item.confidence < LOW_CONFIDENCE;
+
+// The item's current identification as a candidate, with values for the estimated portion so it can be swapped back.
+const toCandidate = (item: MealItem): AlternativeCandidate => {
+  const estimated = item.estimatedPortion;
+  if (estimated && item.modelEstimate) {
+    const { energyDensity, nutrientDensity } = item.modelEstimate;
+    return {
+      name: item.name ?? '',
+      calories: Math.round(energyDensity * estimated.amount / 100),
+      macros: nutrientDensity ? scaleMacros(nutrientDensity, estimated.amount / 100) : item.macros ?? emptyMacros(),
+      confidence: item.confidence,
+    };
+  }
+  return { name: item.name ?? '', calories: item.calories ?? 0, macros: item.macros ?? emptyMacros(), confidence: item.confidence };
+};
+
+// Swaps the item to one of its alternatives, keeping the current portion; the previous name becomes an alternative.
+export function applyAlternative<T extends MealItem>(item: T, index: number): T {
+  const alternative = item.alternatives?.[index];
+  if (!alternative) return item;
+  const alternatives = [toCandidate(item), ...item.alternatives!.filter((_, i) => i !== index)];
+  const estimated = item.estimatedPortion;
+  const hasPortion = !!estimated && estimated.amount > 0;
+  const energyDensity = hasPortion ? alternative.calories * 100 / estimated.amount : undefined;
+  const nutrientDensity = hasPortion ? scaleMacros(alternative.macros, 100 / estimated.amount) : undefined;
+  const swapped: T = {
+    ...item,
+    name: alternative.name,
+    calories: alternative.calories,
+    macros: { ...alternative.macros },
+    energyDensity: energyDensity ?? item.energyDensity,
+    nutrientDensity: nutrientDensity ?? item.nutrientDensity,
+    foodMatch: undefined,
+    modelEstimate: energyDensity !== undefined ? { energyDensity, nutrientDensity } : item.modelEstimate,
+    confidence: alternative.confidence,
+    alternatives,
+    userProvided: true,
+    notFood: false,
+  };
+  return hasPortion && item.portion ? scaleToPortion(swapped, item.portion.amount) : swapped;
+}
+
+const GEOMETRY_EPSILON = 1e-6;
+
+const sameGeometry = (a: BoundingBox, b: BoundingBox): boolean =>
+  Math.abs(a.x - b.x) < GEOMETRY_EPSILON && Math.abs(a.y - b.y) < GEOMETRY_EPSILON &&
+  Math.abs(a.width - b.width) < GEOMETRY_EPSILON && Math.abs(a.height - b.height) < GEOMETRY_EPSILON;
+
+const samePolygon = (a: Point[] | undefined, b: Point[] | undefined): boolean =>
+  a === b || (!!a && !!b && a.length === b.length &&
+    a.every((point, i) => Math.abs(point.x - b[i].x) < GEOMETRY_EPSILON && Math.abs(point.y - b[i].y) < GEOMETRY_EPSILON));
+
+// A box needs (re-)identifying when it has never been identified or was moved, resized or reshaped since.
+// Boxes saved before geometry was tracked have no snapshot and count as identified.
+export const needsIdentification = (box: UserBox): boolean =>
+  !box.userProvided && !box.notFood &&
+  (!box.name || (!!box.identifiedBoundingBox &&
+    (!sameGeometry(box.boundingBox, box.identifiedBoundingBox) || !samePolygon(box.polygon, box.identifiedPolygon))));
+
+// Rescales calories and macros to a new portion amount without another model call.
+export function scaleToPortion<T extends MealItem>(item: T, amount: number): T {
+  if (!item.portion || item.energyDensity === undefined) return item;
+  const safeAmount = Math.max(0, amount);
+  return {
+    ...item,
+    portion: { ...item.portion, amount: safeAmount },
+    calories: Math.round(item.energyDensity * safeAmount / 100),
+    macros: item.nutrientDensity ? scaleMacros(item.nutrientDensity, safeAmount / 100) : item.macros,
+  };
+}
+
+// Applies a manual correction. Energy density follows the new calories so later portion edits stay consistent,
+// and macros are scaled with the calories; they are cleared when the old calories give nothing to scale from.
+export function applyCorrection<T extends MealItem>(item: T, name: string, calories: number): T {
+  const energyDensity = item.portion && item.portion.amount > 0
+    ? calories * 100 / item.portion.amount
+    : item.energyDensity;
+  const factor = item.calories ? calories / item.calories : undefined;
+  const rescale = (macros: Macros | undefined) => macros && factor !== undefined ? scaleMacros(macros, factor) : undefined;
+  return {
+    ...item,
+    name,
+    calories,
+    energyDensity,
+    macros: calories === item.calories ? item.macros : rescale(item.macros),
+    nutrientDensity: calories === item.calories ? item.nutrientDensity : rescale(item.nutrientDensity),
+    foodMatch: undefined,
+    userProvided: true,
+    notFood: false,
+  };
+}
+
+// Applies an accepted update from the refinement chat, or returns null for a removal. The item then counts as corrected
+// by the user so identifying again keeps it. Without new macros the old ones are scaled with the calories.
+export function applyMealUpdate<T extends MealItem>(item: T, update: MealUpdate): T | null {
+  if (update.action === 'remove') return null;
+  const calories = update.calories ?? item.calories;
+  const portion = update.portion ?? item.portion;
+  const macros = update.macros
+    ?? (item.macros && item.calories && calories !== undefined ? scaleMacros(item.macros, calories / item.calories) : item.macros);
+  const hasPortion = !!portion && portion.amount > 0;
+  return {
+    ...item,
+    name: update.name ?? item.name,
+    calories,
+    macros,
+    portion,
+    energyDensity: hasPortion && calories !== undefined ? calories * 100 / portion.amount : item.energyDensity,
+    nutrientDensity: hasPortion && macros ? scaleMacros(macros, 100 / portion.amount) : item.nutrientDensity,
+    foodMatch: undefined,
+    confidence: undefined,
+    alternatives: update.action === 'rename' ? undefined : item.alternatives,
+    userProvided: true,
+    notFood: false,
+  };
+}
+
+// A hidden item proposed by the refinement chat, as an item without a box.
+export const mealUpdateToItem = (id: string, update: MealUpdate): MealItem => applyMealUpdate({ id }, update)!;
+
+// Takes energy and nutrient densities from a database entry and recomputes the item for its current portion.
+// Database values are per 100 g; millilitre portions are treated as 1 g/ml.
+export function applyFoodMatch<T extends MealItem>(item: T, food: FoodReference, score: number): T {
+  if (!item.portion) return item;
+  return scaleToPortion({
+    ...item,
+    energyDensity: food.energyDensity,
+    nutrientDensity: food.nutrientDensity,
+    foodMatch: { foodId: food.id, name: food.name, score },
+  }, item.portion.amount);
+}
+
+// Drops the database match and goes back to the model's own estimate.
+export function clearFoodMatch<T extends MealItem>(item: T): T {
+  if (!item.foodMatch) return item;
+  const restored = { ...item, foodMatch: undefined };
+  if (!item.modelEstimate || !item.portion) return restored;
+  return scaleToPortion({
+    ...restored,
+    energyDensity: item.modelEstimate.energyDensity,
+    nutrientDensity: item.modelEstimate.nutrientDensity,
+  }, item.portion.amount);
+}
+
+const servingsPortion = (serving: Portion, servings: number): Portion => ({
+  amount: serving.amount * servings,
+  unit: serving.unit,
+  householdMeasure: servings === 1
+    ? serving.householdMeasure || '1 serving'
+    : `${servings} × ${serving.householdMeasure || 'serving'}`,
+});
+
+// Turns a number of servings of a packaged product into a meal item using its label values.
+export function productToMealItem(id: string, product: Product, servings: number): MealItem {
+  const portion = servingsPortion(product.serving, servings);
+  return scaleToPortion({
+    id,
+    name: product.brand ? `${product.brand} ${product.name}` : product.name,
+    barcode: product.barcode,
+    portion,
+    energyDensity: product.energyDensity,
+    nutrientDensity: product.nutrientDensity,
+  }, portion.amount);
+}
+
+// Turns a number of servings from a photographed Nutrition Facts label into a meal item.
+export function labelToMealItem(id: string, label: NutritionLabel, servings: number): MealItem {
+  const portion = servingsPortion(label.servingSize, servings);
+  const factor = label.servingSize.amount > 0 ? 100 / label.servingSize.amount : 0;
+  return scaleToPortion({
+    id,
+    name: label.productName || 'Packaged food',
+    fromLabel: true,
+    portion,
+    energyDensity: label.calories * factor,
+    nutrientDensity: scaleMacros(label.macros, factor),
+  }, portion.amount);
+}
@@ -0,0 +1,30 @@
+export interface TaskQueue {
+  add: (task: () => Promise<void>) => void;
+}
+
+// Runs added tasks in order with at most `concurrency` in flight, however many times tasks are added later.
+// A failing task does not stop the rest; tasks are expected to record their own errors.
+// Once the signal is aborted no further tasks are started.
+export function createQueue(concurrency: number, signal?: AbortSignal): TaskQueue {
+  const pending: (() => Promise<void>)[] = [];
+  let active = 0;
+  const runNext = () => {
+    while (active < concurrency && !signal?.aborted) {
+      const task = pending.shift();
+      if (!task) return;
+      active++;
+      task()
+        .catch(err => console.error(err))
+        .finally(() => {
+          active--;
+          runNext();
+        });
+    }
+  };
+  return {
+    add: task => {
+      pending.push(task);
+      runNext();
+    },
+  };
+}
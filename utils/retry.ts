@@ -0,0 +1,76 @@
+export interface RetryOptions {
+  retries: number; // attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs?: number; // limit for each attempt; a timed-out attempt counts as retryable
+  signal?: AbortSignal; // cancels the current attempt and any further ones
+  isRetryable: (err: unknown) => boolean;
+}
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)} s.`);
+    this.name = 'TimeoutError';
+  }
+}
+
+export const isAbortError = (err: unknown): boolean =>
+  typeof err === 'object' && err !== null && (err as { name?: unknown }).name === 'AbortError';
+
+const abortError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+// Resolves after `ms`, or rejects as soon as the signal is aborted.
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Runs one attempt with its own signal, aborted by the caller's signal or the timeout.
+// Settles as soon as that signal fires, even if the task ignores it.
+async function runAttempt<T>(task: (signal: AbortSignal) => Promise<T>, timeoutMs: number | undefined, signal: AbortSignal | undefined): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(abortError(signal!));
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = timeoutMs ? setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs) : undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+  });
+  try {
+    return await Promise.race([task(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Retries transient failures with exponential backoff and full jitter. Cancellation is never retried.
+export async function withRetry<T>(task: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, timeoutMs, signal, isRetryable } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError(signal);
+    try {
+      return await runAttempt(task, timeoutMs, signal);
+    } catch (err) {
+      if (signal?.aborted) throw abortError(signal);
+      const canRetry = err instanceof TimeoutError || isRetryable(err);
+      if (attempt >= retries || !canRetry) throw err;
+      const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`Attempt ${attempt + 1} failed, retrying in ${Math.round(delay)} ms:`, err);
+      await sleep(delay, signal);
+    }
+  }
+}
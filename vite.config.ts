@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+        'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER),
+        'process.env.VISION_TIMEOUT_MS': JSON.stringify(env.VISION_TIMEOUT_MS),
+        'process.env.VISION_MAX_RETRIES': JSON.stringify(env.VISION_MAX_RETRIES),
+        'process.env.IMAGE_MAX_EDGE': JSON.stringify(env.IMAGE_MAX_EDGE),
+        'process.env.IMAGE_MAX_KB': JSON.stringify(env.IMAGE_MAX_KB),
+        'process.env.RESPONSE_CACHE_MAX_ENTRIES': JSON.stringify(env.RESPONSE_CACHE_MAX_ENTRIES),
+        'process.env.RESPONSE_CACHE_MAX_AGE_DAYS': JSON.stringify(env.RESPONSE_CACHE_MAX_AGE_DAYS)
       },
       resolve: {
         alias: {